@@ -0,0 +1,146 @@
+// Brain Dump sync server: a small self-hostable HTTP service that stores
+// items and categories as records with a per-record revision. No
+// dependencies; run it with `npm run sync-server`, or mount `createSyncHandler`
+// on a server of your own.
+//
+//   PORT         port to listen on (default 8787)
+//   SYNC_DATA    JSON file the records are kept in (default ./sync-data.json)
+//   SYNC_TOKEN   if set, clients must send `Authorization: Bearer <token>`
+//   SYNC_ORIGIN  allowed CORS origin (default *)
+//
+// Protocol (JSON):
+//   GET  /changes?since=N  -> { seq, records: [{ kind, id, rev, data }] } with rev > N
+//   POST /changes { changes: [{ kind, id, baseRev, data }] }
+//                          -> { seq, accepted: [{ kind, id, rev }], conflicts: [record] }
+// A change is accepted only if `baseRev` is the record's current revision, so
+// a client can't overwrite something it hasn't seen. `data: null` deletes; the
+// record is kept as a tombstone so other clients learn about the delete.
+import { createServer } from "node:http";
+import { existsSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { pathToFileURL } from "node:url";
+
+const MAX_BODY = 10 * 1024 * 1024;
+const KINDS = ["item", "category"];
+
+// A data file that can't be read stops the server rather than starting empty,
+// which would make every client push its whole state as new records.
+export function loadData(file) {
+  if (!existsSync(file)) return { seq: 0, records: {} };
+  let db;
+  try {
+    db = JSON.parse(readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Can't read the sync data in ${file} (${e.message}). Restore it from a backup or move it away to start over.`);
+  }
+  if (!Number.isInteger(db?.seq) || typeof db.records !== "object" || db.records === null) {
+    throw new Error(`${file} doesn't look like sync data. Restore it from a backup or move it away to start over.`);
+  }
+  return db;
+}
+
+// Written to a temporary file first so a crash mid-write can't corrupt the data.
+function saveData(file, db) {
+  writeFileSync(`${file}.tmp`, JSON.stringify(db));
+  renameSync(`${file}.tmp`, file);
+}
+
+function send(res, origin, status, body) {
+  res.writeHead(status, {
+    "Access-Control-Allow-Origin": origin,
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": "Authorization, Content-Type",
+    "Content-Type": "application/json",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req) {
+  return new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY) reject(new Error("body too large"));
+      else chunks.push(chunk);
+    });
+    req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    req.on("error", reject);
+  });
+}
+
+const isChange = (c) =>
+  c !== null &&
+  typeof c === "object" &&
+  KINDS.includes(c.kind) &&
+  typeof c.id === "string" &&
+  c.id.length > 0 &&
+  Number.isInteger(c.baseRev) &&
+  (c.data === null || (typeof c.data === "object" && !Array.isArray(c.data)));
+
+/** The request handler for a server keeping its records in `data`; throws if that file is unreadable. */
+export function createSyncHandler({ data, token = "", origin = "*" }) {
+  const db = loadData(data);
+
+  function pull(since) {
+    const records = Object.values(db.records)
+      .filter((r) => r.rev > since)
+      .sort((a, b) => a.rev - b.rev);
+    return { seq: db.seq, records };
+  }
+
+  function push(changes) {
+    const accepted = [];
+    const conflicts = [];
+    for (const { kind, id, baseRev, data: content } of changes) {
+      const key = `${kind}:${id}`;
+      const current = db.records[key];
+      if (current && current.rev !== baseRev) {
+        conflicts.push(current);
+        continue;
+      }
+      db.seq += 1;
+      db.records[key] = { kind, id, rev: db.seq, data: content };
+      accepted.push({ kind, id, rev: db.seq });
+    }
+    if (accepted.length) saveData(data, db);
+    return { seq: db.seq, accepted, conflicts };
+  }
+
+  return async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (req.method === "OPTIONS") return send(res, origin, 204);
+    if (req.method === "GET" && url.pathname === "/health") return send(res, origin, 200, { ok: true, seq: db.seq });
+    if (url.pathname !== "/changes") return send(res, origin, 404, { error: "not found" });
+    if (token && req.headers.authorization !== `Bearer ${token}`) return send(res, origin, 401, { error: "invalid token" });
+
+    if (req.method === "GET") {
+      const since = Number(url.searchParams.get("since") ?? 0);
+      if (!Number.isInteger(since) || since < 0) return send(res, origin, 400, { error: "invalid since" });
+      return send(res, origin, 200, pull(since));
+    }
+    if (req.method === "POST") {
+      let body;
+      try {
+        body = JSON.parse(await readBody(req));
+      } catch (e) {
+        return send(res, origin, 400, { error: e instanceof SyntaxError ? "invalid JSON" : e.message });
+      }
+      if (!Array.isArray(body?.changes) || !body.changes.every(isChange)) return send(res, origin, 400, { error: "invalid changes" });
+      return send(res, origin, 200, push(body.changes));
+    }
+    return send(res, origin, 405, { error: "method not allowed" });
+  };
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  const port = Number(process.env.PORT ?? 8787);
+  const data = process.env.SYNC_DATA ?? "sync-data.json";
+  let handler;
+  try {
+    handler = createSyncHandler({ data, token: process.env.SYNC_TOKEN ?? "", origin: process.env.SYNC_ORIGIN ?? "*" });
+  } catch (e) {
+    console.error(e.message);
+    process.exit(1);
+  }
+  createServer(handler).listen(port, () => console.log(`Brain Dump sync server on http://localhost:${port} (data: ${data})`));
+}
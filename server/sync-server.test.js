@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { createServer } from "node:http";
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createSyncHandler } from "./sync-server.js";
+
+let dir;
+let data;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), "brain-dump-sync-"));
+  data = join(dir, "sync-data.json");
+});
+
+afterEach(() => rmSync(dir, { recursive: true, force: true }));
+
+// Serves the handler on a free port for one test.
+async function serve(options = {}) {
+  const server = createServer(createSyncHandler({ data, ...options }));
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${server.address().port}`;
+  const request = async (path, init) => {
+    const res = await fetch(`${base}${path}`, init);
+    return { status: res.status, body: await res.json() };
+  };
+  return {
+    pull: (since = 0) => request(`/changes?since=${since}`),
+    push: (changes) => request("/changes", { method: "POST", body: JSON.stringify({ changes }) }),
+    request,
+    close: () => new Promise((resolve) => server.close(resolve)),
+  };
+}
+
+const item = (text) => ({ id: "a", text, category: "home", createdAt: 0, updatedAt: 0 });
+
+describe("sync server", () => {
+  it("accepts changes against the current revision and keeps them on disk", async () => {
+    const server = await serve();
+    const first = await server.push([{ kind: "item", id: "a", baseRev: 0, data: item("one") }]);
+    expect(first.body).toEqual({ seq: 1, accepted: [{ kind: "item", id: "a", rev: 1 }], conflicts: [] });
+    await server.push([{ kind: "item", id: "a", baseRev: 1, data: item("two") }]);
+    await server.close();
+
+    expect(JSON.parse(readFileSync(data, "utf8")).records["item:a"]).toMatchObject({ rev: 2, data: item("two") });
+    const restarted = await serve();
+    expect((await restarted.pull(1)).body).toEqual({ seq: 2, records: [{ kind: "item", id: "a", rev: 2, data: item("two") }] });
+    await restarted.close();
+  });
+
+  it("rejects a push based on a stale revision and returns the current record", async () => {
+    const server = await serve();
+    await server.push([{ kind: "item", id: "a", baseRev: 0, data: item("one") }]);
+    await server.push([{ kind: "item", id: "a", baseRev: 1, data: item("two") }]);
+    const stale = await server.push([{ kind: "item", id: "a", baseRev: 1, data: item("stale") }]);
+    expect(stale.body).toEqual({ seq: 2, accepted: [], conflicts: [{ kind: "item", id: "a", rev: 2, data: item("two") }] });
+    await server.close();
+  });
+
+  it("checks the token and the shape of changes", async () => {
+    const server = await serve({ token: "secret" });
+    expect((await server.pull()).status).toBe(401);
+    const headers = { Authorization: "Bearer secret" };
+    expect((await server.request("/changes", { method: "POST", headers, body: JSON.stringify({ changes: [{ kind: "note", id: "a", baseRev: 0, data: null }] }) })).status).toBe(400);
+    expect((await server.request("/changes?since=0", { headers })).body).toEqual({ seq: 0, records: [] });
+    await server.close();
+  });
+
+  it("refuses to start on a data file it can't read", () => {
+    writeFileSync(data, "{ not json");
+    expect(() => createSyncHandler({ data })).toThrow(/Can't read the sync data/);
+    writeFileSync(data, "[]");
+    expect(() => createSyncHandler({ data })).toThrow(/doesn't look like sync data/);
+  });
+});
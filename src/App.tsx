@@ -1,5 +1,5 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -7,97 +7,309 @@ import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
-import { Download, Upload, Trash2, Plus, Filter, ListFilter, Settings, ChevronRight, ChevronLeft } from "lucide-react";
-
-// ---- Data Types ----
-const TERMS = ["short", "medium", "long"] as const;
-const STATUSES = ["backlog", "in_progress", "blocked", "done"] as const;
-
-const DEFAULT_CATEGORIES = [
-  { id: "career", label: "Career/Projects (Education)" },
-  { id: "social", label: "Social" },
-  { id: "environment", label: "Environment" },
-  { id: "finance", label: "Finance" },
-  { id: "health", label: "Health" },
-] as const;
-
-type Term = typeof TERMS[number];
-type Status = typeof STATUSES[number];
-
-type Item = {
-  id: string;
-  text: string;
-  category: string; // category id
-  createdAt: number;
-  term?: Term;
-  priority?: number; // 1-5
-  status?: Status; // ticket-style
-};
-
-type Category = { id: string; label: string };
+import { Download, Upload, Trash2, Plus, Filter, ListFilter, Settings, ChevronRight, ChevronLeft, AlertTriangle, Search, Undo2, Redo2, Command as CommandIcon, Zap, LayoutDashboard, RefreshCw, Archive } from "lucide-react";
+import { DEFAULT_CATEGORIES, DEFAULT_SETTINGS, PRIORITIZE_MODES, TERMS } from "@/lib/types";
+import type { Category, Item, PrioritizeMode, TagColor, Term, WorkflowStatus } from "@/lib/types";
+import { SCHEMA_VERSION } from "@/lib/schema";
+import type { LoadResult, PersistedDoc, QuarantinedRecord } from "@/lib/schema";
+import { createDocumentWriter, openStorage } from "@/lib/storage";
+import type { DocumentWriter, OpenedStorage, StorageAdapter } from "@/lib/storage";
+import { parseImportFile } from "@/lib/import";
+import { toCSV } from "@/lib/csv";
+import { toMarkdown } from "@/lib/markdown";
+import type { ImportPlan, ParseResult } from "@/lib/import";
+import { downloadFile, fmtDate, slugify, uid } from "@/lib/utils";
+import { ImportDialog } from "@/components/ImportDialog";
+import { ItemRow } from "@/components/ItemRow";
+import { EmptyState } from "@/components/EmptyState";
+import { SearchResults } from "@/components/SearchResults";
+import { KanbanBoard } from "@/components/KanbanBoard";
+import { filterItems, parseQuery } from "@/lib/query";
+import { spawnNextOccurrence } from "@/lib/due";
+import { DueBadge } from "@/components/DueBadge";
+import { CalendarCard } from "@/components/CalendarCard";
+import { CapturePreview } from "@/components/CapturePreview";
+import { Subtasks } from "@/components/Subtasks";
+import { TagBadge } from "@/components/TagBadge";
+import { TagManager } from "@/components/TagManager";
+import { collectTags, retagItems } from "@/lib/tags";
+import type { TagInfo } from "@/lib/tags";
+import { parseCapture } from "@/lib/capture";
+import { Toast } from "@/components/Toast";
+import type { ToastMessage } from "@/components/Toast";
+import { CommandPalette } from "@/components/CommandPalette";
+import type { Command } from "@/components/CommandPalette";
+import { useHistory } from "@/hooks/useHistory";
+import { useSelection } from "@/hooks/useSelection";
+import { useTabSync } from "@/hooks/useTabSync";
+import { useIdleLock } from "@/hooks/useIdleLock";
+import { UnlockScreen } from "@/components/UnlockScreen";
+import { PassphraseDialog } from "@/components/PassphraseDialog";
+import type { Passphrases } from "@/components/PassphraseDialog";
+import { EncryptionSettings } from "@/components/EncryptionSettings";
+import { deriveKeyring, openEnvelope, readEnvelope, seal } from "@/lib/crypto";
+import type { Envelope, Keyring } from "@/lib/crypto";
+import { announceVaultChange, createVaultAdapter, onVaultChange, unlockVault } from "@/lib/storage-vault";
+import { useServiceWorker } from "@/hooks/useServiceWorker";
+import { useServerSync } from "@/hooks/useServerSync";
+import { SyncSettings } from "@/components/SyncSettings";
+import { clearShare, readShare } from "@/lib/share";
+import { ConflictNotice } from "@/components/ConflictNotice";
+import type { Resolution } from "@/components/ConflictNotice";
+import { BulkBar } from "@/components/BulkBar";
+import { TriageMode } from "@/components/TriageMode";
+import { CategoryManager } from "@/components/CategoryManager";
+import { CategoryBadge, CategoryIcon } from "@/components/CategoryBadge";
+import { categoryTree, moveCategory, rolledUpCounts } from "@/lib/categories";
+import { ICON_CLASSES } from "@/lib/colors";
+import { ItemDetail } from "@/components/ItemDetail";
+import { withActivity } from "@/lib/activity";
+import { Shelf } from "@/components/Shelf";
+import type { ShelfKind } from "@/components/Shelf";
+import { isArchived, isLive, isTrashed, itemsTrashedWith, liveCategories, purgeExpired, restorePatches, restoredCategories } from "@/lib/archive";
+import { Dashboard } from "@/components/Dashboard";
+import { MatrixBoard } from "@/components/MatrixBoard";
+import { CompareMode } from "@/components/CompareMode";
+import { reconcileQuadrant } from "@/lib/matrix";
+import { columnOf, reconcileStage, rekindItems, workflowResolver } from "@/lib/workflow";
+import type { WorkflowOf } from "@/lib/workflow";
+import { WorkflowEditor } from "@/components/WorkflowEditor";
+import { needsTriage } from "@/lib/triage";
+import type { Snapshot } from "@/hooks/useHistory";
 
-// ---- Storage Helpers ----
-const LS_KEY = "brain_dump_mvp_v1";
-const LS_CATS_KEY = "brain_dump_mvp_categories";
+type PassPrompt = { kind: "enable" | "change" | "disable" | "export" } | { kind: "import"; fileName: string; envelope: Envelope };
 
-function loadState(): Item[] {
-  try {
-    const raw = localStorage.getItem(LS_KEY);
-    return raw ? (JSON.parse(raw) as Item[]) : [];
-  } catch {
-    return [];
-  }
-}
-function saveState(items: Item[]) {
-  localStorage.setItem(LS_KEY, JSON.stringify(items));
-}
-function loadCategories(): Category[] {
-  try {
-    const raw = localStorage.getItem(LS_CATS_KEY);
-    if (!raw) return [...DEFAULT_CATEGORIES];
-    const parsed = JSON.parse(raw) as unknown;
-    if (!Array.isArray(parsed) || parsed.length === 0) {
-      return [...DEFAULT_CATEGORIES];
-    }
-    return parsed as Category[];
-  } catch {
-    return [...DEFAULT_CATEGORIES];
-  }
-}
-
-function saveCategories(cats: Category[]) {
-  localStorage.setItem(LS_CATS_KEY, JSON.stringify(cats));
-}
-
-// ---- Utils ----
-const uid = () => Math.random().toString(36).slice(2);
-const fmtDate = (ts: number) => new Date(ts).toLocaleString();
+const PASS_PROMPTS: Record<PassPrompt["kind"], { title: string; description: string; askCurrent?: boolean; askNew?: boolean; submitLabel: string }> = {
+  enable: {
+    title: "Encrypt stored data",
+    description:
+      "Everything on this device is encrypted with this passphrase and locked after a while without use. There is no way to recover it if the passphrase is lost. Server sync, if set up, pauses until encryption is turned off again.",
+    askNew: true,
+    submitLabel: "Encrypt",
+  },
+  change: { title: "Change passphrase", description: "Stored data is re-encrypted with the new passphrase.", askCurrent: true, askNew: true, submitLabel: "Change" },
+  disable: { title: "Turn off encryption", description: "Stored data goes back to plain text on this device.", askCurrent: true, submitLabel: "Turn off" },
+  export: { title: "Encrypted export", description: "The file can only be imported with this passphrase.", askNew: true, submitLabel: "Export" },
+  import: { title: "Encrypted file", description: "Enter the passphrase this file was exported with.", askCurrent: true, submitLabel: "Open" },
+};
 
 // ---- Main App ----
 export default function BrainDumpMVP() {
   const [items, setItems] = useState<Item[]>([]);
-  const [categories, setCategories] = useState<Category[]>([]);
+  const [allCategories, setCategories] = useState<Category[]>([]); // including trashed ones
+  const categories = useMemo(() => liveCategories(allCategories), [allCategories]);
+  const shownCategories = useMemo(() => categories.filter((c) => !c.hidden), [categories]); // sidebar and pickers
   const [activeCat, setActiveCat] = useState<string>(DEFAULT_CATEGORIES[0].id);
   const [step, setStep] = useState<1 | 2 | 3>(1);
   const [kanban, setKanban] = useState<boolean>(false);
   const [filterTerm, setFilterTerm] = useState<Term | "all">("all");
+  const [tagColors, setTagColors] = useState<Record<string, TagColor>>({});
+  const [prioritizeMode, setPrioritizeMode] = useState<PrioritizeMode>("slider");
+  const [tagFilter, setTagFilter] = useState<string | null>(null);
+  const [quarantine, setQuarantine] = useState<QuarantinedRecord[]>([]);
+  const [recovered, setRecovered] = useState<QuarantinedRecord[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [openError, setOpenError] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
+  const [importing, setImporting] = useState<{ fileName: string; result: ParseResult } | null>(null);
+  const [toast, setToast] = useState<ToastMessage | null>(null);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const [triaging, setTriaging] = useState(false);
+  const [dashboard, setDashboard] = useState(false);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const shareHandled = useRef(false);
+  const [lockMinutes, setLockMinutes] = useState(DEFAULT_SETTINGS.lockMinutes);
+  const [trashDays, setTrashDays] = useState(DEFAULT_SETTINGS.trashDays);
+  const [archiveDays, setArchiveDays] = useState(DEFAULT_SETTINGS.archiveDays);
+  const [workflow, setWorkflow] = useState(DEFAULT_SETTINGS.workflow); // columns for categories without their own
+  const workflowOf = useMemo(() => workflowResolver(allCategories, workflow), [allCategories, workflow]);
+  const [shelf, setShelf] = useState<ShelfKind | null>(null);
+  const [detailId, setDetailId] = useState<string | null>(null);
+  const [sealed, setSealed] = useState<string | null>(null); // encrypted and locked
+  const [keyring, setKeyring] = useState<Keyring | null>(null); // encrypted and unlocked
+  const [passPrompt, setPassPrompt] = useState<PassPrompt | null>(null);
+  const writer = useRef<DocumentWriter | null>(null);
+  const storage = useRef<OpenedStorage | null>(null);
+  const latestDoc = useRef<PersistedDoc | null>(null);
+
+  const saveFailed = useCallback((e: unknown) => setSaveError(e instanceof Error ? e.message : "Unknown storage error"), []);
+
+  const applySettings = useCallback((settings: PersistedDoc["settings"]) => {
+    setKanban(settings.kanban);
+    setFilterTerm(settings.filterTerm);
+    setTagColors(settings.tagColors);
+    setPrioritizeMode(settings.prioritizeMode);
+    setLockMinutes(settings.lockMinutes);
+    setTrashDays(settings.trashDays);
+    setArchiveDays(settings.archiveDays);
+    setWorkflow(settings.workflow);
+  }, []);
+
+  const hydrate = useCallback((result: LoadResult | null) => {
+    if (result) {
+      const { doc } = result;
+      setItems(doc.items);
+      setCategories(doc.categories);
+      applySettings(doc.settings);
+      setQuarantine(doc.quarantine);
+      setRecovered(result.recovered);
+      const first = liveCategories(doc.categories).find((c) => !c.hidden);
+      if (first) setActiveCat(first.id);
+    } else {
+      setCategories([...DEFAULT_CATEGORIES]);
+    }
+    setLoaded(true);
+  }, [applySettings]);
 
   useEffect(() => {
-    setItems(loadState());
-    const loadedCats = loadCategories();
-    setCategories(loadedCats);
-    if (loadedCats.length) setActiveCat(loadedCats[0].id);
+    let cancelled = false;
+    openStorage().then((opened) => {
+      if (cancelled) return;
+      storage.current = opened;
+      if (opened.sealed) {
+        setSealed(opened.sealed);
+        return;
+      }
+      writer.current = createDocumentWriter(opened.adapter, opened.result?.doc ?? null, saveFailed);
+      hydrate(opened.result);
+    }).catch((e) => {
+      // Nothing is loaded, so nothing is saved either: the stored data stays as it was.
+      if (!cancelled) setOpenError(e instanceof Error ? e.message : String(e));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [hydrate, saveFailed]);
+
+  const settings = useMemo(
+    () => ({ kanban, filterTerm, tagColors, prioritizeMode, lockMinutes, trashDays, archiveDays, workflow }),
+    [kanban, filterTerm, tagColors, prioritizeMode, lockMinutes, trashDays, archiveDays, workflow]
+  );
+
+  useEffect(() => {
+    if (!loaded) return;
+    latestDoc.current = { version: SCHEMA_VERSION, items, categories: allCategories, settings, quarantine };
+    writer.current?.schedule(latestDoc.current);
+  }, [loaded, items, allCategories, settings, quarantine]);
+
+  // ---- Encryption ----
+  const unlock = async (passphrase: string) => {
+    const opened = storage.current!;
+    const { keyring: unlocked, result } = await unlockVault(sealed!, passphrase);
+    writer.current = createDocumentWriter(createVaultAdapter(opened.vault, unlocked), result.doc, saveFailed);
+    setKeyring(unlocked);
+    setSealed(null);
+    hydrate(result);
+  };
+
+  // Locking reloads the page, which is the surest way to drop the key and every decrypted item from memory.
+  const lock = useCallback(async () => {
+    await writer.current?.flush();
+    window.location.reload();
   }, []);
 
-  useEffect(() => saveState(items), [items]);
-  useEffect(() => saveCategories(categories), [categories]);
+  useIdleLock(keyring !== null, lockMinutes, lock);
+
+  useEffect(
+    () =>
+      onVaultChange(() => {
+        // Another tab changed the key; anything saved from here now would use the old one.
+        writer.current = null;
+        window.location.reload();
+      }),
+    []
+  );
+
+  // Moves the whole document to `adapter`, then runs `cleanup` (emptying the old place).
+  // Saves are paused meanwhile and resume with whatever changed during the switch.
+  const switchStorage = async (adapter: StorageAdapter, cleanup: () => Promise<void>) => {
+    const old = writer.current;
+    writer.current = null;
+    await old?.cancel();
+    const doc = latestDoc.current!;
+    try {
+      await adapter.save(doc, { put: doc.items, remove: [], meta: true });
+    } catch (e) {
+      writer.current = old;
+      old?.schedule(latestDoc.current!);
+      throw e;
+    }
+    writer.current = createDocumentWriter(adapter, doc, saveFailed);
+    writer.current.schedule(latestDoc.current!);
+    await cleanup();
+    announceVaultChange();
+  };
+
+  const checkPassphrase = async (passphrase: string) => {
+    const text = await storage.current!.vault.read();
+    if (!text) throw new Error("No encrypted data found.");
+    await unlockVault(text, passphrase);
+  };
+
+  const submitPassphrase = async ({ current, next }: Passphrases) => {
+    const opened = storage.current!;
+    const prompt = passPrompt!;
+    if (prompt.kind === "enable") {
+      const created = await deriveKeyring(next);
+      await switchStorage(createVaultAdapter(opened.vault, created), () => opened.adapter.clear());
+      setKeyring(created);
+      setToast({ id: Date.now(), message: sync.config.enabled ? "Stored data is now encrypted; server sync is paused" : "Stored data is now encrypted" });
+    } else if (prompt.kind === "change") {
+      await checkPassphrase(current);
+      const created = await deriveKeyring(next);
+      await switchStorage(createVaultAdapter(opened.vault, created), async () => {});
+      setKeyring(created);
+      setToast({ id: Date.now(), message: "Passphrase changed" });
+    } else if (prompt.kind === "disable") {
+      await checkPassphrase(current);
+      await switchStorage(opened.adapter, () => opened.vault.remove());
+      setKeyring(null);
+      setToast({ id: Date.now(), message: sync.config.enabled ? "Encryption turned off; server sync resumes" : "Encryption turned off" });
+    } else if (prompt.kind === "export") {
+      await downloadEncrypted(await deriveKeyring(next));
+    } else if (prompt.kind === "import") {
+      const { plaintext } = await openEnvelope(current, prompt.envelope);
+      setImporting({ fileName: prompt.fileName, result: parseImportFile(prompt.fileName, plaintext) });
+    }
+    setPassPrompt(null);
+  };
+
+  // Retention runs on load, after edits and hourly; it isn't an undoable edit.
+  const [purgeClock, setPurgeClock] = useState(() => Date.now());
+  useEffect(() => {
+    const timer = setInterval(() => setPurgeClock(Date.now()), 3_600_000);
+    return () => clearInterval(timer);
+  }, []);
+  useEffect(() => {
+    if (!loaded) return;
+    const next = purgeExpired(items, allCategories, trashDays, archiveDays);
+    if (next.items !== items) setItems(next.items);
+    if (next.categories !== allCategories) setCategories(next.categories);
+  }, [loaded, items, allCategories, trashDays, archiveDays, purgeClock]);
+  const applyUpdate = useServiceWorker();
+
+  // Don't lose the last debounced change when the tab is hidden or closed.
+  useEffect(() => {
+    const flush = () => {
+      if (document.visibilityState === "hidden") writer.current?.flush();
+    };
+    document.addEventListener("visibilitychange", flush);
+    window.addEventListener("pagehide", flush);
+    return () => {
+      document.removeEventListener("visibilitychange", flush);
+      window.removeEventListener("pagehide", flush);
+    };
+  }, []);
+
+  // Archived and trashed items only show up in their own views (and `is:archived` searches).
+  const liveItems = useMemo(() => items.filter(isLive), [items]);
 
   const itemsByCat = useMemo(() => {
     const map: Record<string, Item[]> = {};
     categories.forEach((c) => (map[c.id] = []));
-    items.forEach((it) => {
+    liveItems.forEach((it) => {
       if (!map[it.category]) map[it.category] = [];
       map[it.category].push(it);
     });
@@ -106,80 +318,452 @@ export default function BrainDumpMVP() {
       map[k].sort((a, b) => (b.priority || 0) - (a.priority || 0) || a.createdAt - b.createdAt)
     );
     return map;
-  }, [items, categories]);
+  }, [liveItems, categories]);
+
+  const categoryCounts = useMemo(() => Object.fromEntries(Object.entries(itemsByCat).map(([id, list]) => [id, list.length])), [itemsByCat]);
+  const activeCategory = categories.find((c) => c.id === activeCat);
+  const ownWorkflow = !!activeCategory?.workflow;
+  const activeWorkflow = workflowOf(activeCat);
+  const workflowCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    liveItems.forEach((i) => {
+      if (workflowOf(i.category) !== activeWorkflow) return;
+      const id = columnOf(i, activeWorkflow).id;
+      counts[id] = (counts[id] ?? 0) + 1;
+    });
+    return counts;
+  }, [liveItems, workflowOf, activeWorkflow]);
+
+  const termShown = (i: Item) => (filterTerm === "all" ? true : i.term === filterTerm);
+  const activeItems = (itemsByCat[activeCat] || []).filter(termShown);
+
+  const selection = useSelection(activeItems.map((i) => i.id));
+  const clearSelection = selection.clear;
+
+  const untriaged = useMemo(() => liveItems.filter(needsTriage).length, [liveItems]);
+  const detailItem = detailId ? items.find((i) => i.id === detailId) : undefined;
+  const archivedItems = useMemo(() => items.filter(isArchived), [items]);
+  const archivedCount = archivedItems.length;
+  const trashedCount = useMemo(() => items.filter(isTrashed).length, [items]);
+  const doneIds = activeItems.filter((i) => i.status === "done").map((i) => i.id);
+  const tags = useMemo(() => collectTags(liveItems, tagColors), [liveItems, tagColors]);
+  // The overview's tag facet spans every category, not just the active one.
+  const activeTag = tags.some((t) => t.name === tagFilter) ? tagFilter : null;
+  const overviewItems = activeTag
+    ? liveItems.filter((i) => i.tags?.includes(activeTag) && (filterTerm === "all" || i.term === filterTerm))
+    : activeItems;
 
-  const activeItems = (itemsByCat[activeCat] || []).filter((i) =>
-    filterTerm === "all" ? true : i.term === filterTerm
+  const query = useMemo(() => parseQuery(search), [search]);
+  const searchResults = useMemo(
+    () =>
+      filterItems(items, query, categories).sort(
+        (a, b) => (b.priority || 0) - (a.priority || 0) || a.createdAt - b.createdAt
+      ),
+    [items, query, categories]
   );
+  const searching = search.trim().length > 0;
+
+  // ---- History ----
+  const snapshot = useMemo(() => ({ items, categories: allCategories }), [items, allCategories]);
+  const restore = useCallback((s: Snapshot) => {
+    setItems(s.items);
+    setCategories(s.categories);
+    const live = liveCategories(s.categories).filter((c) => !c.hidden);
+    setActiveCat((cur) => (live.some((c) => c.id === cur) ? cur : live[0]?.id ?? cur));
+  }, []);
+  const { record, undo: undoStep, redo: redoStep, clear: clearHistory, canUndo, canRedo, nextUndo } = useHistory(snapshot, restore);
+  useTabSync(items, allCategories, settings, loaded, setItems, setCategories, applySettings, clearHistory);
+  const sync = useServerSync(items, allCategories, loaded, keyring !== null, setItems, setCategories, clearHistory);
+  const dismissToast = useCallback(() => setToast(null), []);
+
+  const undo = useCallback(() => {
+    const label = undoStep();
+    if (label) setToast({ id: Date.now(), message: `Undid: ${label}`, action: { label: "Redo", run: redoStep } });
+  }, [undoStep, redoStep]);
+
+  const redo = useCallback(() => {
+    const label = redoStep();
+    if (label) setToast({ id: Date.now(), message: `Redid: ${label}`, action: { label: "Undo", run: undoStep } });
+  }, [undoStep, redoStep]);
+
+  // Leave Ctrl/Cmd+Z inside text fields to the browser's own text undo.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      if (target?.closest("input, textarea, select, [contenteditable=true]")) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" && !e.shiftKey) undo();
+      else if ((key === "z" && e.shiftKey) || key === "y") redo();
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [undo, redo]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (e.key === "Escape" && !target?.closest("input, textarea, select, [role=dialog]")) clearSelection();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [clearSelection]);
+
+  // Ctrl/Cmd+K opens the palette from anywhere, including text fields.
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== "k") return;
+      e.preventDefault();
+      setPaletteOpen((o) => !o);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, []);
+
+  // Destructive actions get a toast with a one-click undo.
+  const notifyUndoable = (message: string) =>
+    setToast({ id: Date.now(), message, action: { label: "Undo", run: undoStep } });
 
   // ---- Actions ----
-  const addItem = (text: string) => {
-    if (!text.trim()) return;
+  // Inline tokens (#category, !3, ~short, @blocked, due:fri) override the defaults.
+  const addItem = useCallback((text: string, category = activeCat) => {
+    const parsed = parseCapture(text, categories);
+    if (!parsed.text) return null;
+    record("Add item");
     const item: Item = {
       id: uid(),
-      text: text.trim(),
-      category: activeCat,
+      text: parsed.text,
+      category,
       createdAt: Date.now(),
+      updatedAt: Date.now(),
       status: "backlog",
+      ...parsed.fields,
     };
     setItems((prev) => [item, ...prev]);
+    return item;
+  }, [record, categories, activeCat]);
+
+  const updateItems = (patches: Record<string, Partial<Item>>, label = "Edit items", key?: string) => {
+    record(label, key);
+    setItems((prev) => {
+      const now = Date.now();
+      const spawned: Item[] = [];
+      const next = prev.map((i) => {
+        if (!patches[i.id]) return i;
+        const merged = reconcileQuadrant({ ...i, ...patches[i.id], updatedAt: now });
+        const updated = withActivity(i, reconcileStage(i, merged, workflowOf(merged.category)), now);
+        const occurrence = i.status !== "done" && updated.status === "done" ? spawnNextOccurrence(updated, now) : null;
+        if (!occurrence) return updated;
+        spawned.push(occurrence);
+        return { ...updated, recurrence: undefined };
+      });
+      return [...spawned, ...next];
+    });
   };
 
   const setItem = (id: string, patch: Partial<Item>) =>
-    setItems((prev) => prev.map((i) => (i.id === id ? { ...i, ...patch } : i)));
+    updateItems({ [id]: patch }, "Edit item", `edit:${id}:${Object.keys(patch).sort().join(",")}`);
 
-  const removeItem = (id: string) => setItems((prev) => prev.filter((i) => i.id !== id));
+  const removeItem = (id: string) => {
+    const item = items.find((i) => i.id === id);
+    updateItems({ [id]: { deletedAt: Date.now() } }, "Delete item");
+    notifyUndoable(`Moved “${item?.text ?? "item"}” to the trash`);
+  };
+
+  const archiveItems = (ids: string[], label = `Archive ${ids.length} items`) => {
+    const now = Date.now();
+    updateItems(Object.fromEntries(ids.map((id) => [id, { archivedAt: now }])), label);
+    notifyUndoable(ids.length === 1 ? "Archived 1 item" : `Archived ${ids.length} items`);
+  };
+
+  // One history entry for the whole selection.
+  const bulkUpdate = (patch: Partial<Item>) => {
+    const ids = selection.selected;
+    updateItems(Object.fromEntries(ids.map((id) => [id, patch])), `Edit ${ids.length} items`);
+    if (patch.category) {
+      selection.clear();
+      notifyUndoable(`Moved ${ids.length} items to ${categories.find((c) => c.id === patch.category)?.label ?? patch.category}`);
+    }
+  };
+
+  const bulkRemove = () => {
+    const ids = selection.selected;
+    const now = Date.now();
+    updateItems(Object.fromEntries(ids.map((id) => [id, { deletedAt: now }])), `Delete ${ids.length} items`);
+    selection.clear();
+    notifyUndoable(`Moved ${ids.length} items to the trash`);
+  };
+
+  const bulkArchive = () => {
+    archiveItems(selection.selected);
+    selection.clear();
+  };
+
+  const bulkBar = selection.selected.length > 0 && (
+    <BulkBar
+      count={selection.selected.length}
+      workflow={activeWorkflow}
+      total={activeItems.length}
+      categories={shownCategories}
+      activeCat={activeCat}
+      onApply={bulkUpdate}
+      onDelete={bulkRemove}
+      onArchive={bulkArchive}
+      onSelectAll={selection.selectAll}
+      onClear={selection.clear}
+    />
+  );
+
+  const resolveConflict = (copyId: string, keep: Resolution) => {
+    const copy = items.find((i) => i.id === copyId);
+    if (!copy?.conflictOf) return;
+    const originalId = copy.conflictOf;
+    const hasOriginal = items.some((i) => i.id === originalId);
+    record("Resolve conflict");
+    const now = Date.now();
+    setItems((prev) => {
+      if (keep === "both") return prev.map((i) => (i.id === copyId ? { ...i, conflictOf: undefined, updatedAt: now } : i));
+      const rest = prev.filter((i) => i.id !== copyId);
+      if (keep === "original") return rest;
+      // The chosen version takes over the original id, or comes back if that was deleted.
+      const chosen = { ...copy, id: originalId, conflictOf: undefined, updatedAt: now };
+      return hasOriginal ? rest.map((i) => (i.id === originalId ? chosen : i)) : [chosen, ...rest];
+    });
+  };
 
   const addCategory = (label: string) => {
     if (!label.trim()) return;
-    const id = label.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-    if (categories.some((c) => c.id === id)) return;
-    const next = [...categories, { id, label: label.trim() }];
+    const id = slugify(label);
+    const existing = categories.find((c) => c.id === id);
+    if (existing) {
+      if (existing.hidden) updateCategory(id, { hidden: undefined });
+      setActiveCat(id);
+      return;
+    }
+    record("Add category");
+    // A trashed category with the same id comes back under the new label, without its old items.
+    const next = [...allCategories.filter((c) => c.id !== id), { id, label: label.trim() }];
     setCategories(next);
     setActiveCat(id);
   };
 
+  // The category and its items go to the trash together, so restoring it brings them all back.
+  const trashCategories = (ids: Set<string>, label: string) => {
+    const now = Date.now();
+    record(label);
+    setItems((prev) => prev.map((i) => (ids.has(i.category) && !i.deletedAt ? { ...i, deletedAt: now, updatedAt: now } : i)));
+    setCategories((prev) => prev.map((c) => (ids.has(c.id) && !c.deletedAt ? { ...c, deletedAt: now } : c)));
+    const next = shownCategories.filter((c) => !ids.has(c.id));
+    if (ids.has(activeCat) && next.length) setActiveCat(next[0].id);
+  };
+
+  const updateCategory = (id: string, patch: Partial<Category>) => {
+    if (patch.hidden && !shownCategories.some((c) => c.id !== id)) {
+      setToast({ id: Date.now(), message: "Keep at least one category in the sidebar" });
+      return;
+    }
+    record("Edit category", `category:${id}:${Object.keys(patch).sort().join(",")}`);
+    setCategories((prev) => prev.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+    if (patch.hidden && id === activeCat) setActiveCat(shownCategories.find((c) => c.id !== id)!.id);
+  };
+
+  // Shared columns aren't part of undo history, like the other settings; a
+  // category's own columns are, like the rest of the category. Either way the
+  // statuses of items in a column that changed kind are an undoable edit.
+  const setCategoryWorkflow = (next: WorkflowStatus[] | undefined) => {
+    const nextCategories = allCategories.map((c) => (c.id === activeCat ? { ...c, workflow: next } : c));
+    record(next ? "Edit columns" : "Use shared columns", `workflow:${activeCat}:${next ? "edit" : "reset"}`);
+    setCategories(nextCategories);
+    setItems((prev) => rekindItems(prev, workflowResolver(nextCategories, workflow)));
+  };
+  const changeWorkflow = (next: WorkflowStatus[]) => {
+    if (ownWorkflow) return setCategoryWorkflow(next);
+    const rekinded = rekindItems(items, workflowResolver(allCategories, next));
+    if (rekinded !== items) {
+      record("Edit columns", "workflow:shared");
+      setItems(rekinded);
+    }
+    setWorkflow(next);
+  };
+
+  const moveCategoryTo = (id: string, before: string | null, parent?: string) => {
+    record("Reorder categories");
+    setCategories((prev) => moveCategory(prev, id, before, parent));
+  };
+
   const removeCategory = (id: string) => {
-    // prevent deleting if it has items unless confirmed
-    const hasItems = items.some((i) => i.category === id);
-    if (hasItems && !confirm("This category has items. Delete anyway? Items will be kept but unassigned.")) return;
-    if (hasItems) setItems((prev) => prev.map((i) => (i.category === id ? { ...i, category: categories[0]?.id || "uncat" } : i)));
-    const next = categories.filter((c) => c.id !== id);
-    setCategories(next);
-    if (next.length) setActiveCat(next[0].id);
+    if (!shownCategories.some((c) => c.id !== id)) {
+      setToast({ id: Date.now(), message: "Keep at least one category in the sidebar" });
+      return;
+    }
+    const count = items.filter((i) => i.category === id && !i.deletedAt).length;
+    const label = categories.find((c) => c.id === id)?.label ?? id;
+    if (count && !confirm(`Move “${label}” and its ${count} items to the trash?`)) return;
+    trashCategories(new Set([id]), "Delete category");
+    notifyUndoable(`Moved category “${label}” to the trash`);
+  };
+
+  // ---- Archive & Trash ----
+  const restoreFromShelf = (kind: ShelfKind, ids: string[]) => {
+    if (kind === "archive") {
+      updateItems(Object.fromEntries(ids.map((id) => [id, { archivedAt: undefined }])), "Unarchive");
+      return;
+    }
+    const set = new Set(ids);
+    updateItems(restorePatches(items, set), ids.length === 1 ? "Restore item" : `Restore ${ids.length} items`);
+    setCategories((prev) => restoredCategories(prev, items, set));
+  };
+
+  const deleteFromShelf = (kind: ShelfKind, ids: string[]) => {
+    const now = Date.now();
+    if (kind === "archive") {
+      updateItems(Object.fromEntries(ids.map((id) => [id, { deletedAt: now }])), "Delete item");
+      return;
+    }
+    // For good: only history can bring these back, until the page is closed.
+    const set = new Set(ids);
+    const remaining = items.filter((i) => !set.has(i.id));
+    record(ids.length === 1 ? "Delete item for good" : `Delete ${ids.length} items for good`);
+    setItems(remaining);
+    setCategories((prev) => prev.filter((c) => !c.deletedAt || remaining.some((i) => i.category === c.id)));
+    notifyUndoable(ids.length === 1 ? "Deleted 1 item for good" : `Deleted ${ids.length} items for good`);
+  };
+
+  const restoreCategory = (id: string) => {
+    const category = allCategories.find((c) => c.id === id);
+    if (!category) return;
+    updateItems(restorePatches(items, new Set(itemsTrashedWith(items, category).map((i) => i.id))), "Restore category");
+    setCategories((prev) => prev.map((c) => (c.id === id ? { ...c, deletedAt: undefined } : c)));
+  };
+
+  const renameTag = (from: string, to: string) => {
+    updateItems(retagItems(items, from, to), "Rename tag");
+    setTagColors(({ [from]: color, ...rest }) => (color && !rest[to] ? { ...rest, [to]: color } : rest));
+    if (tagFilter === from) setTagFilter(to);
+  };
+
+  const deleteTag = (name: string) => {
+    const patches = retagItems(items, name, null);
+    const count = Object.keys(patches).length;
+    if (!confirm(`Remove #${name} from ${count} item${count === 1 ? "" : "s"}?`)) return;
+    updateItems(patches, "Delete tag");
+    notifyUndoable(`Deleted tag #${name}`);
+  };
+
+  const exportName = (ext: string) => `brain-dump-${new Date().toISOString().slice(0, 10)}.${ext}`;
+
+  // Trashed items are backed up, so the trashed categories they belong to are too.
+  const backup = () => ({ version: SCHEMA_VERSION, items, categories: allCategories, exportedAt: new Date().toISOString() });
+
+  const exportJSON = () => downloadFile(exportName("json"), JSON.stringify(backup(), null, 2), "application/json");
+
+  // Same content as the JSON backup, sealed; import asks for the passphrase.
+  const downloadEncrypted = async (ring: Keyring) => {
+    const data = backup();
+    downloadFile(exportName("encrypted.json"), JSON.stringify(await seal(ring, JSON.stringify(data))), "application/json");
+  };
+
+  // With encryption on, the export uses the same passphrase.
+  const exportEncrypted = () => {
+    if (!keyring) return setPassPrompt({ kind: "export" });
+    downloadEncrypted(keyring).catch(() => setToast({ id: Date.now(), message: "Encrypted export failed" }));
   };
 
-  const exportJSON = () => {
-    const data = { items, categories, exportedAt: new Date().toISOString() };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = `brain-dump-${new Date().toISOString().slice(0, 10)}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const exportCSV = () => downloadFile(exportName("csv"), toCSV(items.filter((i) => !i.deletedAt), categories), "text/csv");
+
+  const exportMarkdown = () => downloadFile(exportName("md"), toMarkdown(items.filter((i) => !i.deletedAt), categories), "text/markdown");
+
+  const exportQuarantine = () => {
+    downloadFile(`brain-dump-quarantine-${new Date().toISOString().slice(0, 10)}.json`, JSON.stringify(quarantine, null, 2), "application/json");
   };
 
-  const importJSON = (file: File) => {
+  // Parsing only validates; nothing changes until the import dialog applies a plan.
+  const importFile = (file: File) => {
     const reader = new FileReader();
     reader.onload = () => {
-      try {
-        const data = JSON.parse(String(reader.result));
-        if (Array.isArray(data.items) && Array.isArray(data.categories)) {
-          setItems(data.items);
-          setCategories(data.categories);
-          setActiveCat(data.categories[0]?.id || activeCat);
-        } else {
-          alert("Invalid file structure.");
-        }
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      } catch (e) {
-        alert("Failed to parse file.");
-      }
+      const text = String(reader.result);
+      const envelope = readEnvelope(text);
+      if (envelope) setPassPrompt({ kind: "import", fileName: file.name, envelope });
+      else setImporting({ fileName: file.name, result: parseImportFile(file.name, text) });
     };
+    reader.onerror = () => setImporting({ fileName: file.name, result: { ok: false, error: "Failed to read file." } });
     reader.readAsText(file);
   };
 
+  const applyImport = (plan: ImportPlan) => {
+    record("Import");
+    setItems(plan.items);
+    // Trashed categories aren't offered to the import, so they're kept as they are.
+    setCategories((prev) => [...plan.categories, ...prev.filter((c) => c.deletedAt && !plan.categories.some((p) => p.id === c.id))]);
+    if (!plan.categories.some((c) => c.id === activeCat)) setActiveCat(plan.categories[0]?.id || activeCat);
+    setImporting(null);
+    notifyUndoable(`Imported: ${plan.added.length} added, ${plan.updated.length} updated`);
+  };
+
+  // Text shared from another app (manifest share_target) is captured like a quick add.
+  useEffect(() => {
+    if (!loaded || shareHandled.current) return;
+    shareHandled.current = true;
+    const text = readShare(window.location.search);
+    if (!text) return;
+    clearShare();
+    const item = addItem(text);
+    if (item) setToast({ id: Date.now(), message: `Shared text added to ${categories.find((c) => c.id === item.category)?.label ?? item.category}` });
+  }, [loaded, addItem, categories]);
+
+  const commands: Command[] = [
+    ...shownCategories.map((c) => ({ id: `cat:${c.id}`, label: c.label, group: "Go to category", run: () => setActiveCat(c.id) })),
+    ...(["Dump", "Sort", "Prioritize"] as const).map((label, i) => ({
+      id: `step:${i + 1}`,
+      label: `Step ${i + 1}: ${label}`,
+      group: "Go to step",
+      run: () => setStep((i + 1) as 1 | 2 | 3),
+    })),
+    { id: "dashboard", label: dashboard ? "Hide dashboard" : "Show dashboard", group: "View", run: () => setDashboard((d) => !d) },
+    { id: "archive", label: `Open archive (${archivedCount})`, group: "View", run: () => setShelf("archive") },
+    { id: "trash", label: `Open trash (${trashedCount})`, group: "View", run: () => setShelf("trash") },
+    ...(doneIds.length ? [{ id: "archive:done", label: `Archive done items in this category (${doneIds.length})`, group: "Edit", run: () => archiveItems(doneIds, "Archive done items") }] : []),
+    { id: "triage", label: `Start triage (${untriaged} unsorted)`, group: "View", run: () => setTriaging(true) },
+    { id: "board", label: kanban ? "Hide ticket board" : "Show ticket board", group: "View", run: () => setKanban((k) => !k) },
+    { id: "undo", label: nextUndo ? `Undo ${nextUndo}` : "Undo", group: "Edit", hint: "Ctrl/Cmd+Z", run: undo },
+    { id: "redo", label: "Redo", group: "Edit", hint: "Shift+Ctrl/Cmd+Z", run: redo },
+    { id: "export:json", label: "Export JSON (full backup)", group: "Export", run: exportJSON },
+    { id: "export:csv", label: "Export CSV (spreadsheet)", group: "Export", run: exportCSV },
+    { id: "export:md", label: "Export Markdown (checklist)", group: "Export", run: exportMarkdown },
+    { id: "export:encrypted", label: "Export encrypted JSON", group: "Export", run: exportEncrypted },
+    ...(keyring ? [{ id: "lock", label: "Lock now", group: "Encryption", run: lock }] : []),
+    { id: "import", label: "Import file…", group: "Import", run: () => fileInput.current?.click() },
+  ].filter((c) => (c.id === "undo" ? canUndo : c.id === "redo" ? canRedo : true));
+
+  if (sealed) {
+    return (
+      <UnlockScreen
+        onUnlock={unlock}
+        onErase={async () => {
+          await storage.current?.vault.remove();
+          announceVaultChange();
+          window.location.reload();
+        }}
+      />
+    );
+  }
+
+  if (!loaded) {
+    return (
+      <div className="min-h-screen w-full bg-zinc-50 text-zinc-500 grid place-items-center text-sm">
+        {openError ? (
+          <p className="max-w-md text-center text-red-700" role="alert">
+            Couldn't open the stored data ({openError}). Nothing was changed; reload the page to try again.
+          </p>
+        ) : (
+          "Loading…"
+        )}
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen w-full bg-zinc-50 text-zinc-900 p-4 md:p-8">
       <div className="mx-auto max-w-6xl">
@@ -187,9 +771,29 @@ export default function BrainDumpMVP() {
           <div className="flex items-center gap-3">
             <div className="size-8 rounded-2xl bg-zinc-900 text-white grid place-items-center">BD</div>
             <h1 className="text-2xl font-semibold">Brain Dump – MVP</h1>
-            <Badge variant="secondary" className="ml-2">Local Only</Badge>
+            {sync.config.enabled ? (
+              <Badge variant={sync.status.phase === "error" ? "destructive" : "secondary"} className="ml-2" title={sync.status.error}>
+                {sync.status.phase === "offline" ? "Offline" : sync.status.phase === "error" ? "Sync failed" : "Synced"}
+              </Badge>
+            ) : (
+              <Badge variant="secondary" className="ml-2">Local Only</Badge>
+            )}
+            {saveError && (
+              <Badge variant="destructive" title={saveError} onClick={() => setSaveError(null)}>Not saved</Badge>
+            )}
           </div>
           <div className="flex items-center gap-2">
+            <label className="relative flex items-center">
+              <Search className="size-4 absolute left-2 text-zinc-400" />
+              <Input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                onKeyDown={(e) => e.key === "Escape" && setSearch("")}
+                placeholder="Search all… e.g. cat:finance p>=3"
+                title="Tokens: cat:, cat:=id, tag:, term:, status:, p>=3, created:<7d, is:untriaged, is:archived, free text; prefix - to exclude"
+                className="pl-8 w-64 bg-white"
+              />
+            </label>
             <label className="flex items-center gap-2 text-sm"><ListFilter className="size-4" />
               <select className="border rounded-md px-2 py-1" value={filterTerm} onChange={(e) => setFilterTerm(e.target.value as any)}>
                 <option value="all">All terms</option>
@@ -198,9 +802,40 @@ export default function BrainDumpMVP() {
                 ))}
               </select>
             </label>
-            <Button variant="outline" onClick={exportJSON}><Download className="size-4 mr-2"/>Export</Button>
+            <Button variant="outline" onClick={() => setPaletteOpen(true)} title="Command palette (Ctrl/Cmd+K)">
+              <CommandIcon className="size-4 mr-2" />K
+            </Button>
+            <Button variant={dashboard ? "default" : "ghost"} size="icon" onClick={() => setDashboard((d) => !d)} title="Dashboard (all categories)" aria-pressed={dashboard}>
+              <LayoutDashboard className="size-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title={nextUndo ? `Undo ${nextUndo} (Ctrl/Cmd+Z)` : "Undo"}>
+              <Undo2 className="size-4" />
+            </Button>
+            <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Shift+Ctrl/Cmd+Z)">
+              <Redo2 className="size-4" />
+            </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="outline"><Download className="size-4 mr-2"/>Export</Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={exportJSON}>JSON (full backup)</DropdownMenuItem>
+                <DropdownMenuItem onClick={exportCSV}>CSV (spreadsheet)</DropdownMenuItem>
+                <DropdownMenuItem onClick={exportMarkdown}>Markdown (checklist)</DropdownMenuItem>
+                <DropdownMenuItem onClick={exportEncrypted}>Encrypted JSON (passphrase)</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
             <label className="inline-flex items-center">
-              <Input type="file" className="hidden" onChange={(e) => e.target.files?.[0] && importJSON(e.target.files[0])} />
+              <Input
+                ref={fileInput}
+                type="file"
+                accept=".json,.csv,.md,.markdown"
+                className="hidden"
+                onChange={(e) => {
+                  if (e.target.files?.[0]) importFile(e.target.files[0]);
+                  e.target.value = "";
+                }}
+              />
               <Button variant="outline"><Upload className="size-4 mr-2"/>Import</Button>
             </label>
             <div className="flex items-center gap-2 pl-2 border-l">
@@ -210,6 +845,45 @@ export default function BrainDumpMVP() {
           </div>
         </header>
 
+        {importing && (
+          <ImportDialog
+            fileName={importing.fileName}
+            result={importing.result}
+            items={items}
+            categories={categories}
+            onApply={applyImport}
+            onClose={() => setImporting(null)}
+          />
+        )}
+
+        <CommandPalette
+          open={paletteOpen}
+          onOpenChange={setPaletteOpen}
+          categories={shownCategories}
+          activeCat={activeCat}
+          commands={commands}
+          onCapture={(text, category) => {
+            const item = addItem(text, category);
+            if (item) setToast({ id: Date.now(), message: `Added to ${categories.find((c) => c.id === item.category)?.label ?? item.category}` });
+          }}
+        />
+
+        {passPrompt && <PassphraseDialog {...PASS_PROMPTS[passPrompt.kind]} onSubmit={submitPassphrase} onClose={() => setPassPrompt(null)} />}
+
+        {detailItem && <ItemDetail item={detailItem} categories={allCategories} workflow={workflowOf(detailItem.category)} onClose={() => setDetailId(null)} />}
+
+        {triaging && <TriageMode items={liveItems} categories={shownCategories} onChange={setItem} onClose={() => setTriaging(false)} />}
+
+        {toast && <Toast toast={toast} onDismiss={dismissToast} />}
+
+        {applyUpdate && <UpdateNotice onReload={applyUpdate} />}
+
+        <ConflictNotice items={items} onResolve={resolveConflict} />
+
+        {recovered.length > 0 && (
+          <RecoveryNotice records={recovered} onDownload={exportQuarantine} onDismiss={() => setRecovered([])} />
+        )}
+
         <div className="grid grid-cols-1 md:grid-cols-[240px_1fr] gap-6">
           {/* Sidebar */}
           <aside className="space-y-4">
@@ -218,23 +892,18 @@ export default function BrainDumpMVP() {
                 <CardTitle className="text-base">Categories</CardTitle>
               </CardHeader>
               <CardContent className="space-y-2">
-                <div className="flex flex-col gap-2">
-                  {categories.map((c) => (
-                    <button
-                      key={c.id}
-                      onClick={() => setActiveCat(c.id)}
-                      className={`text-left px-3 py-2 rounded-xl border hover:shadow ${activeCat === c.id ? "bg-zinc-900 text-white" : "bg-white"}`}
-                    >
-                      <div className="flex items-center justify-between">
-                        <span className="truncate">{c.label}</span>
-                        <Badge variant={activeCat === c.id ? "secondary" : "outline"}>{itemsByCat[c.id]?.length || 0}</Badge>
-                      </div>
-                    </button>
-                  ))}
-                </div>
+                <CategoryList categories={shownCategories} activeCat={activeCat} counts={categoryCounts} onSelect={setActiveCat} onMove={moveCategoryTo} />
                 <AddCategory onAdd={addCategory} />
+                <div className="grid grid-cols-2 gap-2">
+                  <Button size="sm" variant={shelf === "archive" ? "default" : "outline"} onClick={() => setShelf((s) => (s === "archive" ? null : "archive"))}>
+                    <Archive className="size-4 mr-1" />Archive ({archivedCount})
+                  </Button>
+                  <Button size="sm" variant={shelf === "trash" ? "default" : "outline"} onClick={() => setShelf((s) => (s === "trash" ? null : "trash"))}>
+                    <Trash2 className="size-4 mr-1" />Trash ({trashedCount})
+                  </Button>
+                </div>
                 {categories.length > 5 && (
-                  <p className="text-xs text-zinc-500">Tip: You can delete custom categories from the settings below.</p>
+                  <p className="text-xs text-zinc-500">Tip: Drag to reorder. Rename, nest, hide or delete categories under Manage below.</p>
                 )}
               </CardContent>
             </Card>
@@ -255,9 +924,13 @@ export default function BrainDumpMVP() {
                     <DropdownMenuContent align="end">
                       <DropdownMenuItem
                         onClick={() => {
-                          if (confirm("Reset categories to defaults?")) {
-                            setCategories([...DEFAULT_CATEGORIES]);
+                          if (confirm("Reset categories to defaults? Custom categories and their items move to the trash.")) {
+                            const defaults = new Set<string>(DEFAULT_CATEGORIES.map((c) => c.id));
+                            trashCategories(new Set(categories.filter((c) => !defaults.has(c.id)).map((c) => c.id)), "Reset categories");
+                            // Defaults come back in their original order, restored if they were trashed.
+                            setCategories((prev) => [...DEFAULT_CATEGORIES, ...prev.filter((c) => !defaults.has(c.id))]);
                             setActiveCat(DEFAULT_CATEGORIES[0].id);
+                            notifyUndoable("Categories reset to defaults");
                           }
                         }}
                       >
@@ -265,55 +938,151 @@ export default function BrainDumpMVP() {
                       </DropdownMenuItem>
                       <DropdownMenuItem
                         onClick={() => {
-                          if (confirm("Clear ALL data (items + categories)?")) {
-                            localStorage.removeItem(LS_KEY);
-                            localStorage.removeItem(LS_CATS_KEY);
-                            setItems([]);
-                            setCategories([...DEFAULT_CATEGORIES]);
+                          if (confirm("Move ALL items and custom categories to the trash?")) {
+                            const defaults = new Set<string>(DEFAULT_CATEGORIES.map((c) => c.id));
+                            const now = Date.now();
+                            record("Clear all data");
+                            setItems((prev) => prev.map((i) => (i.deletedAt ? i : { ...i, deletedAt: now, updatedAt: now })));
+                            setCategories((prev) => [
+                              ...DEFAULT_CATEGORIES,
+                              ...prev.filter((c) => !defaults.has(c.id)).map((c) => (c.deletedAt ? c : { ...c, deletedAt: now })),
+                            ]);
                             setActiveCat(DEFAULT_CATEGORIES[0].id);
+                            notifyUndoable("Moved all data to the trash");
                           }
                         }}
                       >
-                        Clear all data
+                        Move all to trash
                       </DropdownMenuItem>
+                      {quarantine.length > 0 && (
+                        <>
+                          <DropdownMenuItem onClick={exportQuarantine}>
+                            Download quarantined records ({quarantine.length})
+                          </DropdownMenuItem>
+                          <DropdownMenuItem
+                            onClick={() => {
+                              if (confirm("Permanently discard quarantined records?")) {
+                                setQuarantine([]);
+                                setRecovered([]);
+                              }
+                            }}
+                          >
+                            Discard quarantined records
+                          </DropdownMenuItem>
+                        </>
+                      )}
                     </DropdownMenuContent>
                   </DropdownMenu>
                 </div>
               </CardHeader>
               <CardContent className="space-y-2">
-                {categories.map((c) => (
-                  !DEFAULT_CATEGORIES.find((d) => d.id === c.id) && (
-                    <div key={c.id} className="flex items-center justify-between text-sm">
-                      <span className="truncate">{c.label}</span>
-                      <Button size="icon" variant="ghost" onClick={() => removeCategory(c.id)} title="Delete">
-                        <Trash2 className="size-4"/>
-                      </Button>
-                    </div>
-                  )
-                ))}
+                <CategoryManager categories={categories} counts={categoryCounts} onUpdate={updateCategory} onRemove={removeCategory} />
+                <div className="pt-2 border-t">
+                  <div className="mb-2 flex items-center justify-between gap-2">
+                    <p className="text-xs font-medium text-zinc-600">Board columns{ownWorkflow ? "" : " (shared)"}</p>
+                    <label className="flex items-center gap-2 text-xs text-zinc-600" title="Give this category its own columns instead of the shared ones">
+                      Own for {activeCategory?.label}
+                      <Switch checked={ownWorkflow} onCheckedChange={(own) => setCategoryWorkflow(own ? activeWorkflow.map((c) => ({ ...c })) : undefined)} />
+                    </label>
+                  </div>
+                  <WorkflowEditor workflow={activeWorkflow} counts={workflowCounts} onChange={changeWorkflow} />
+                </div>
+                <div className="pt-2 border-t">
+                  <p className="text-xs font-medium text-zinc-600 mb-2">Tags</p>
+                  <TagManager
+                    tags={tags}
+                    onRename={renameTag}
+                    onColor={(name, color) => setTagColors((c) => ({ ...c, [name]: color }))}
+                    onDelete={deleteTag}
+                  />
+                </div>
+                <div className="pt-2 border-t">
+                  <p className="text-xs font-medium text-zinc-600 mb-2">Sync</p>
+                  <SyncSettings config={sync.config} status={sync.status} encrypted={keyring !== null} onChange={sync.configure} onSyncNow={sync.syncNow} />
+                </div>
+                <div className="pt-2 border-t">
+                  <p className="text-xs font-medium text-zinc-600 mb-2">Encryption</p>
+                  <EncryptionSettings
+                    enabled={keyring !== null}
+                    lockMinutes={lockMinutes}
+                    onLockMinutes={setLockMinutes}
+                    onEnable={() => setPassPrompt({ kind: "enable" })}
+                    onChangePassphrase={() => setPassPrompt({ kind: "change" })}
+                    onDisable={() => setPassPrompt({ kind: "disable" })}
+                    onLock={lock}
+                  />
+                </div>
               </CardContent>
             </Card>
           </aside>
 
           {/* Main */}
           <main className="space-y-6">
+            {searching && (
+              <SearchResults
+                query={query}
+                results={searchResults}
+                workflowOf={workflowOf}
+                categories={categories}
+                tags={tags}
+                onChange={setItem}
+                onRemove={removeItem}
+                onOpen={setDetailId}
+                onClear={() => setSearch("")}
+              />
+            )}
+
+            {shelf && (
+              <Shelf
+                kind={shelf}
+                items={items}
+                categories={allCategories}
+                days={shelf === "trash" ? trashDays : archiveDays}
+                onDays={shelf === "trash" ? setTrashDays : setArchiveDays}
+                onRestore={(ids) => restoreFromShelf(shelf, ids)}
+                onDelete={(ids) => deleteFromShelf(shelf, ids)}
+                onRestoreCategory={restoreCategory}
+                onClose={() => setShelf(null)}
+              />
+            )}
+
+            {dashboard && (
+              <Dashboard
+                items={liveItems}
+                archived={archivedItems}
+                categories={categories}
+                workflowOf={workflowOf}
+                onDrill={(q) => {
+                  setSearch(q);
+                  window.scrollTo({ top: 0, behavior: "smooth" });
+                }}
+                onClose={() => setDashboard(false)}
+              />
+            )}
+
             <Stepper step={step} setStep={setStep} />
 
             {step === 1 && (
-              <RawInputPanel categoryLabel={categories.find((c) => c.id === activeCat)?.label || ""} onAdd={addItem} />
+              <RawInputPanel categoryLabel={categories.find((c) => c.id === activeCat)?.label || ""} categories={categories} onAdd={addItem} />
             )}
 
             {step === 2 && (
               <Card>
                 <CardHeader className="pb-2">
-                  <CardTitle className="text-base">Step 2: Sort by Term</CardTitle>
+                  <div className="flex items-center justify-between">
+                    <CardTitle className="text-base">Step 2: Sort by Term</CardTitle>
+                    <Button size="sm" variant="outline" onClick={() => setTriaging(true)} disabled={untriaged === 0} title="One item at a time, across all categories">
+                      <Zap className="size-4 mr-2" />Triage ({untriaged})
+                    </Button>
+                  </div>
                 </CardHeader>
                 <CardContent className="grid gap-3">
+                  {bulkBar}
                   {activeItems.length === 0 ? (
                     <EmptyState message="No items yet for this category. Add some in Step 1." />
                   ) : (
                     activeItems.map((it) => (
-                      <ItemRow key={it.id} item={it} onChange={(patch) => setItem(it.id, patch)} onRemove={() => removeItem(it.id)} showTerm showPriority={false} />
+                      <ItemRow key={it.id} item={it} tags={tags} selected={selection.isSelected(it.id)} onSelect={(range) => selection.toggle(it.id, range)} onChange={(patch) => setItem(it.id, patch)} onRemove={() => removeItem(it.id)} onOpen={() => setDetailId(it.id)} showTerm showPriority={false} />
                     ))
                   )}
                 </CardContent>
@@ -324,45 +1093,84 @@ export default function BrainDumpMVP() {
               !kanban ? (
                 <Card>
                   <CardHeader className="pb-2">
-                    <CardTitle className="text-base">Step 3: Prioritize</CardTitle>
+                    <div className="flex items-center justify-between">
+                      <CardTitle className="text-base">Step 3: Prioritize</CardTitle>
+                      <div className="flex items-center gap-2">
+                        {doneIds.length > 0 && (
+                          <Button size="sm" variant="outline" className="h-7" onClick={() => archiveItems(doneIds, "Archive done items")} title="Put finished items away; they stay searchable with is:archived">
+                            <Archive className="size-4 mr-1" />Archive done ({doneIds.length})
+                          </Button>
+                        )}
+                        <div className="flex rounded-md border p-0.5" role="group" aria-label="Prioritize with">
+                          {PRIORITIZE_MODES.map((m) => (
+                            <Button key={m} size="sm" variant={prioritizeMode === m ? "default" : "ghost"} className="h-7 capitalize" aria-pressed={prioritizeMode === m} onClick={() => setPrioritizeMode(m)}>
+                              {m}
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    </div>
                   </CardHeader>
                   <CardContent className="grid gap-3">
+                    {prioritizeMode === "slider" && bulkBar}
                     {activeItems.length === 0 ? (
                       <EmptyState message="Nothing to prioritize. Add items first." />
+                    ) : prioritizeMode === "matrix" ? (
+                      <MatrixBoard items={activeItems} onChange={(id, patch) => updateItems({ [id]: patch }, "Place in matrix")} />
+                    ) : prioritizeMode === "compare" ? (
+                      <CompareMode
+                        key={activeCat}
+                        items={activeItems}
+                        onApply={(patches) => {
+                          updateItems(patches, "Apply ranking");
+                          notifyUndoable(`Set priorities on ${Object.keys(patches).length} items from the ranking`);
+                        }}
+                      />
                     ) : (
                       activeItems.map((it) => (
-                        <ItemRow key={it.id} item={it} onChange={(patch) => setItem(it.id, patch)} onRemove={() => removeItem(it.id)} showTerm showPriority showStatus />
+                        <ItemRow key={it.id} item={it} tags={tags} workflow={activeWorkflow} selected={selection.isSelected(it.id)} onSelect={(range) => selection.toggle(it.id, range)} onChange={(patch) => setItem(it.id, patch)} onRemove={() => removeItem(it.id)} onOpen={() => setDetailId(it.id)} showTerm showPriority showStatus showDue />
                       ))
                     )}
                   </CardContent>
                 </Card>
               ) : (
-                <KanbanBoard items={activeItems} onChange={(id, patch) => setItem(id, patch)} />
+                <KanbanBoard items={itemsByCat[activeCat] || []} shown={termShown} workflow={activeWorkflow} tags={tags} onReorder={(patches) => updateItems(patches, "Move card")} onOpen={setDetailId} />
               )
             )}
 
             {/* List View (always visible for quick glance) */}
-            <Card>
-              <CardHeader className="pb-2">
-                <CardTitle className="text-base flex items-center gap-2">Overview <Filter className="size-4"/></CardTitle>
-              </CardHeader>
-              <CardContent>
-                <Tabs defaultValue="all">
-                  <TabsList className="flex flex-wrap">
-                    <TabsTrigger value="all">All</TabsTrigger>
+            <div className="grid gap-6 lg:grid-cols-2 items-start">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-base flex items-center gap-2">Overview <Filter className="size-4"/></CardTitle>
+                </CardHeader>
+                <CardContent className="grid gap-3">
+                  {tags.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1" aria-label="Filter by tag">
+                      {tags.map((t) => (
+                        <TagBadge key={t.name} name={t.name} color={t.color} active={activeTag === t.name} onClick={() => setTagFilter(activeTag === t.name ? null : t.name)} />
+                      ))}
+                      {activeTag && <span className="text-xs text-zinc-500">across all categories</span>}
+                    </div>
+                  )}
+                  <Tabs defaultValue="all">
+                    <TabsList className="flex flex-wrap">
+                      <TabsTrigger value="all">All</TabsTrigger>
+                      {TERMS.map((t) => (
+                        <TabsTrigger key={t} value={t}>{t}</TabsTrigger>
+                      ))}
+                    </TabsList>
+                    <TabsContent value="all"><OverviewList items={overviewItems} tags={tags} categories={activeTag ? categories : undefined} workflowOf={workflowOf} /></TabsContent>
                     {TERMS.map((t) => (
-                      <TabsTrigger key={t} value={t}>{t}</TabsTrigger>
+                      <TabsContent key={t} value={t}>
+                        <OverviewList items={overviewItems.filter((i) => i.term === t)} tags={tags} categories={activeTag ? categories : undefined} workflowOf={workflowOf} />
+                      </TabsContent>
                     ))}
-                  </TabsList>
-                  <TabsContent value="all"><OverviewList items={activeItems} /></TabsContent>
-                  {TERMS.map((t) => (
-                    <TabsContent key={t} value={t}>
-                      <OverviewList items={activeItems.filter((i) => i.term === t)} />
-                    </TabsContent>
-                  ))}
-                </Tabs>
-              </CardContent>
-            </Card>
+                  </Tabs>
+                </CardContent>
+              </Card>
+              <CalendarCard items={activeItems} />
+            </div>
           </main>
         </div>
       </div>
@@ -394,21 +1202,23 @@ function Stepper({ step, setStep }: { step: 1 | 2 | 3; setStep: (s: 1 | 2 | 3) =
   );
 }
 
-function RawInputPanel({ categoryLabel, onAdd }: { categoryLabel: string; onAdd: (text: string) => void }) {
+function RawInputPanel({ categoryLabel, categories, onAdd }: { categoryLabel: string; categories: Category[]; onAdd: (text: string) => Item | null }) {
   const [text, setText] = useState("");
   const [count, setCount] = useState(0);
   const [bulk, setBulk] = useState("");
 
+  const preview = parseCapture(text, categories);
+  const bulkLines = bulk.split(/\n+/).map((l) => l.trim()).filter(Boolean);
+  const bulkPreview = bulkLines.map((line) => parseCapture(line, categories));
+
   const addOne = () => {
-    onAdd(text);
-    if (text.trim()) setCount((c) => c + 1);
+    if (onAdd(text)) setCount((c) => c + 1);
     setText("");
   };
 
   const addBulk = () => {
-    const lines = bulk.split(/\n+/).map((l) => l.trim()).filter(Boolean);
-    lines.forEach(onAdd);
-    setCount((c) => c + lines.length);
+    const added = bulkLines.filter((line) => onAdd(line));
+    setCount((c) => c + added.length);
     setBulk("");
   };
 
@@ -431,9 +1241,11 @@ function RawInputPanel({ categoryLabel, onAdd }: { categoryLabel: string; onAdd:
               value={text}
               onChange={(e) => setText(e.target.value)}
               placeholder="Type a thought/task and hit Enter"
+              title="Optional tokens: #category !0-5 ~short|medium|long @status due:fri"
             />
             <Button type="submit"><Plus className="size-4 mr-2" />Add</Button>
           </form>
+          <CapturePreview parsed={preview} categories={categories} />
           <p className="text-xs text-zinc-500">Captured this session: {count}</p>
         </div>
         <div className="grid gap-2">
@@ -450,6 +1262,16 @@ function RawInputPanel({ categoryLabel, onAdd }: { categoryLabel: string; onAdd:
             placeholder="Paste a list here (one per line). Ctrl/Cmd+Enter to add."
             rows={5}
           />
+          {bulkPreview.some((p) => Object.keys(p.fields).length || p.errors.length) && (
+            <ul className="grid gap-1 max-h-40 overflow-y-auto text-sm">
+              {bulkPreview.map((p, i) => (
+                <li key={i} className="flex flex-wrap items-center gap-2">
+                  <span className="truncate">{p.text || <em className="text-zinc-400">(no text, skipped)</em>}</span>
+                  <CapturePreview parsed={p} categories={categories} />
+                </li>
+              ))}
+            </ul>
+          )}
           <div className="flex justify-end"><Button variant="secondary" onClick={addBulk}>Add List</Button></div>
         </div>
       </CardContent>
@@ -457,70 +1279,9 @@ function RawInputPanel({ categoryLabel, onAdd }: { categoryLabel: string; onAdd:
   );
 }
 
-function ItemRow({ item, onChange, onRemove, showTerm, showPriority, showStatus }: { item: Item; onChange: (patch: Partial<Item>) => void; onRemove: () => void; showTerm?: boolean; showPriority?: boolean; showStatus?: boolean; }) {
-  return (
-    <div className="flex items-start gap-3 rounded-xl border bg-white p-3">
-      <div className="flex-1">
-        <div className="flex items-center gap-2 mb-1">
-          <Badge variant="outline">{fmtDate(item.createdAt)}</Badge>
-          {item.term && <Badge variant="secondary">{item.term}</Badge>}
-          {typeof item.priority === "number" && <Badge variant="secondary">P{item.priority}</Badge>}
-          {item.status && <Badge className="capitalize" variant="outline">{item.status.replace("_", " ")}</Badge>}
-        </div>
-        <div className="whitespace-pre-wrap">{item.text}</div>
-      </div>
-      <div className="flex flex-col gap-2 min-w-52">
-        {showTerm && (
-          <div className="px-2 py-1 rounded-md border bg-white">
-            <label className="text-xs text-zinc-600">Term</label>
-            <select
-              className="mt-1 w-full rounded-md border px-2 py-1 text-sm"
-              value={item.term ?? ""}
-              onChange={(e) =>
-                onChange({ term: (e.target.value || undefined) as Term | undefined })
-              }
-            >
-              <option value="">— set term —</option>
-              {TERMS.map((t) => (
-                <option key={t} value={t}>{t}</option>
-              ))}
-            </select>
-          </div>
-        )}
-        {showPriority && (
-          <div className="px-2 py-1 rounded-md border">
-            <div className="flex items-center justify-between text-xs mb-1">
-              <span>Priority</span>
-              <span>{item.priority ?? 0}</span>
-            </div>
-            <Slider defaultValue={[item.priority ?? 0]} max={5} step={1} onValueChange={(v) => onChange({ priority: v[0] })} />
-          </div>
-        )}
-        {showStatus && (
-          <div className="px-2 py-1 rounded-md border bg-white">
-            <label className="text-xs text-zinc-600">Status</label>
-            <select
-              className="mt-1 w-full rounded-md border px-2 py-1 text-sm capitalize"
-              value={item.status ?? ""}
-              onChange={(e) =>
-                onChange({ status: (e.target.value || undefined) as Status | undefined })
-              }
-            >
-              <option value="">— set status —</option>
-              {STATUSES.map((s) => (
-                <option key={s} value={s}>{s.replace("_", " ")}</option>
-              ))}
-            </select>
-          </div>
-        )}
-        <Button variant="ghost" size="icon" onClick={onRemove} title="Delete item"><Trash2 className="size-4"/></Button>
-      </div>
-    </div>
-  );
-}
-
-function OverviewList({ items }: { items: Item[] }) {
+function OverviewList({ items, tags, categories, workflowOf }: { items: Item[]; tags: TagInfo[]; categories?: Category[]; workflowOf: WorkflowOf }) {
   if (items.length === 0) return <EmptyState message="No items to show." />;
+  const colors = new Map(tags.map((t) => [t.name, t.color]));
   return (
     <div className="grid gap-2">
       {items.map((it) => (
@@ -528,8 +1289,14 @@ function OverviewList({ items }: { items: Item[] }) {
           <div className="flex items-center gap-2">
             {it.term && <Badge variant="secondary">{it.term}</Badge>}
             {typeof it.priority === "number" && <Badge variant="outline">P{it.priority}</Badge>}
-            {it.status && <Badge className="capitalize" variant="outline">{it.status.replace("_", " ")}</Badge>}
-            <span>{it.text}</span>
+            {(it.status || it.stage) && <Badge variant="outline">{columnOf(it, workflowOf(it.category)).label}</Badge>}
+            <DueBadge item={it} />
+            {categories && <CategoryBadge category={categories.find((c) => c.id === it.category)} id={it.category} />}
+            {it.tags?.map((t) => <TagBadge key={t} name={t} color={colors.get(t)} />)}
+            <div>
+              <span>{it.text}</span>
+              <Subtasks item={it} />
+            </div>
           </div>
           <span className="text-xs text-zinc-500">{fmtDate(it.createdAt)}</span>
         </div>
@@ -538,49 +1305,36 @@ function OverviewList({ items }: { items: Item[] }) {
   );
 }
 
-function KanbanBoard({ items, onChange }: { items: Item[]; onChange: (id: string, patch: Partial<Item>) => void }) {
-  const grouped = useMemo(() => {
-    const g: Record<Status, Item[]> = { backlog: [], in_progress: [], blocked: [], done: [] };
-    items.forEach((i) => g[(i.status as Status) || "backlog"].push(i));
-    return g;
-  }, [items]);
+function RecoveryNotice({ records, onDownload, onDismiss }: { records: QuarantinedRecord[]; onDownload: () => void; onDismiss: () => void }) {
+  return (
+    <div className="flex items-start gap-3 rounded-xl border border-amber-300 bg-amber-50 p-3 mb-6 text-sm">
+      <AlertTriangle className="size-4 mt-0.5 text-amber-600" />
+      <div className="flex-1">
+        <p className="font-medium">
+          {records.length} stored {records.length === 1 ? "record" : "records"} couldn't be read and {records.length === 1 ? "was" : "were"} set aside.
+        </p>
+        <ul className="mt-1 text-xs text-zinc-600 list-disc pl-4">
+          {records.slice(0, 5).map((r, i) => (
+            <li key={i}>{r.kind}: {r.reason}</li>
+          ))}
+          {records.length > 5 && <li>…and {records.length - 5} more</li>}
+        </ul>
+        <p className="mt-1 text-xs text-zinc-600">Nothing was deleted. You can download the quarantined records from here or the Manage menu.</p>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" onClick={onDownload}><Download className="size-4 mr-2"/>Download</Button>
+        <Button size="sm" variant="ghost" onClick={onDismiss}>Dismiss</Button>
+      </div>
+    </div>
+  );
+}
 
+function UpdateNotice({ onReload }: { onReload: () => void }) {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
-      {STATUSES.map((s) => (
-        <Card key={s} className="min-h-[220px]">
-          <CardHeader className="pb-2">
-            <CardTitle className="text-sm capitalize">{s.replace("_", " ")}</CardTitle>
-          </CardHeader>
-          <CardContent className="space-y-2">
-            {grouped[s].length === 0 ? (
-              <EmptyState small message="No cards" />
-            ) : (
-              grouped[s].map((it) => (
-                <div key={it.id} className="rounded-lg border bg-white p-2">
-                  <div className="text-sm mb-1">{it.text}</div>
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-2">
-                      {it.term && <Badge variant="secondary">{it.term}</Badge>}
-                      {typeof it.priority === "number" && <Badge variant="outline">P{it.priority}</Badge>}
-                    </div>
-                    <DropdownMenu>
-                      <DropdownMenuTrigger asChild>
-                        <Button size="sm" variant="outline">Move</Button>
-                      </DropdownMenuTrigger>
-                      <DropdownMenuContent>
-                        {STATUSES.map((dest) => (
-                          <DropdownMenuItem key={dest} className="capitalize" onClick={() => onChange(it.id, { status: dest })}>{dest.replace("_", " ")}</DropdownMenuItem>
-                        ))}
-                      </DropdownMenuContent>
-                    </DropdownMenu>
-                  </div>
-                </div>
-              ))
-            )}
-          </CardContent>
-        </Card>
-      ))}
+    <div className="flex items-center gap-3 rounded-xl border bg-white p-3 mb-6 text-sm">
+      <RefreshCw className="size-4 text-zinc-500" />
+      <p className="flex-1">A new version is ready. Reload to use it; your items are already saved.</p>
+      <Button size="sm" onClick={onReload}>Reload</Button>
     </div>
   );
 }
@@ -595,8 +1349,64 @@ function AddCategory({ onAdd }: { onAdd: (label: string) => void }) {
   );
 }
 
-function EmptyState({ message, small }: { message: string; small?: boolean }) {
+// Sidebar list: drag a category onto another to put it in front (and beside it
+// in the tree); Alt+Up/Down moves it among its siblings.
+function CategoryList({ categories, activeCat, counts, onSelect, onMove }: { categories: Category[]; activeCat: string; counts: Record<string, number>; onSelect: (id: string) => void; onMove: (id: string, before: string | null, parent?: string) => void }) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const rows = categoryTree(categories);
+  const totals = rolledUpCounts(categories, counts);
+
+  const step = (c: Category, delta: -1 | 1) => {
+    const siblings = rows.filter((r) => r.category.parent === c.parent).map((r) => r.category.id);
+    const at = siblings.indexOf(c.id);
+    if (delta < 0 && at > 0) onMove(c.id, siblings[at - 1], c.parent);
+    if (delta > 0 && at < siblings.length - 1) onMove(c.id, siblings[at + 2] ?? null, c.parent);
+  };
+
   return (
-    <div className={`text-center ${small ? "text-xs" : "text-sm"} text-zinc-500 py-6`}>{message}</div>
+    <div className="flex flex-col gap-2" role="list" aria-label="Categories">
+      {rows.map(({ category: c, depth, hasChildren }) => {
+        const own = counts[c.id] ?? 0;
+        const active = activeCat === c.id;
+        return (
+          <button
+            key={c.id}
+            role="listitem"
+            draggable
+            onClick={() => onSelect(c.id)}
+            onDragStart={(e) => {
+              e.dataTransfer.effectAllowed = "move";
+              e.dataTransfer.setData("text/plain", c.id);
+              setDragId(c.id);
+            }}
+            onDragEnd={() => setDragId(null)}
+            onDragOver={(e) => dragId && dragId !== c.id && e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              if (dragId && dragId !== c.id) onMove(dragId, c.id, c.parent);
+              setDragId(null);
+            }}
+            onKeyDown={(e) => {
+              if (!e.altKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return;
+              e.preventDefault();
+              step(c, e.key === "ArrowUp" ? -1 : 1);
+            }}
+            title="Drag or Alt+arrow keys to reorder"
+            style={{ marginLeft: depth * 12 }}
+            className={`text-left px-3 py-2 rounded-xl border hover:shadow ${active ? "bg-zinc-900 text-white" : "bg-white"} ${dragId === c.id ? "opacity-40" : ""}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <span className="flex min-w-0 items-center gap-2">
+                <CategoryIcon icon={c.icon} className={`size-4 shrink-0 ${c.color && !active ? ICON_CLASSES[c.color] : ""}`} />
+                <span className="truncate">{c.label}</span>
+              </span>
+              <Badge variant={active ? "secondary" : "outline"} title={hasChildren ? `${own} here, ${totals[c.id]} with subcategories` : undefined}>
+                {hasChildren ? totals[c.id] : own}
+              </Badge>
+            </div>
+          </button>
+        );
+      })}
+    </div>
   );
 }
@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Archive, Trash2, X } from "lucide-react";
+import { TERMS } from "@/lib/types";
+import type { Category, Item, Term, WorkflowStatus } from "@/lib/types";
+
+type Props = {
+  count: number;
+  total: number;
+  categories: Category[];
+  activeCat: string;
+  workflow: WorkflowStatus[]; // the active category's columns
+  onApply: (patch: Partial<Item>) => void;
+  onDelete: () => void;
+  onArchive: () => void;
+  onSelectAll: () => void;
+  onClear: () => void;
+};
+
+const selectClass = "rounded-md border bg-white px-2 py-1 text-sm text-zinc-900";
+
+// Each control applies to the whole selection as soon as a value is picked.
+export function BulkBar({ count, total, categories, activeCat, workflow, onApply, onDelete, onArchive, onSelectAll, onClear }: Props) {
+  return (
+    <div className="sticky top-2 z-10 flex flex-wrap items-center gap-2 rounded-xl bg-zinc-900 px-3 py-2 text-sm text-white shadow" role="toolbar" aria-label="Bulk actions">
+      <span className="font-medium">{count} selected</span>
+      {count < total && (
+        <Button size="sm" variant="secondary" onClick={onSelectAll}>Select all {total}</Button>
+      )}
+      <select className={selectClass} value="" onChange={(e) => onApply({ term: (e.target.value || undefined) as Term | undefined })} aria-label="Set term">
+        <option value="" disabled>Term…</option>
+        {TERMS.map((t) => (
+          <option key={t} value={t}>{t}</option>
+        ))}
+      </select>
+      <select className={selectClass} value="" onChange={(e) => onApply({ priority: Number(e.target.value) })} aria-label="Set priority">
+        <option value="" disabled>Priority…</option>
+        {[0, 1, 2, 3, 4, 5].map((p) => (
+          <option key={p} value={p}>P{p}</option>
+        ))}
+      </select>
+      <select
+        className={selectClass}
+        value=""
+        onChange={(e) => {
+          const column = workflow.find((c) => c.id === e.target.value);
+          if (column) onApply({ stage: column.id, status: column.kind });
+        }}
+        aria-label="Set status"
+      >
+        <option value="" disabled>Status…</option>
+        {workflow.map((c) => (
+          <option key={c.id} value={c.id}>{c.label}</option>
+        ))}
+      </select>
+      <select className={selectClass} value="" onChange={(e) => onApply({ category: e.target.value })} aria-label="Move to category">
+        <option value="" disabled>Move to…</option>
+        {categories.filter((c) => c.id !== activeCat).map((c) => (
+          <option key={c.id} value={c.id}>{c.label}</option>
+        ))}
+      </select>
+      <Button size="sm" variant="secondary" onClick={onArchive}><Archive className="size-4 mr-1" />Archive</Button>
+      <Button size="sm" variant="destructive" onClick={onDelete}><Trash2 className="size-4 mr-1" />Delete</Button>
+      <Button size="icon" variant="ghost" className="ml-auto hover:bg-zinc-800 hover:text-white" onClick={onClear} title="Clear selection (Esc)">
+        <X className="size-4" />
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { CalendarDays, ChevronLeft, ChevronRight } from "lucide-react";
+import { WEEKDAYS, addDays, fromDateKey, occurrencesBetween, toDateKey, todayKey } from "@/lib/due";
+import type { Item } from "@/lib/types";
+
+type Mode = "month" | "week";
+type Entry = { item: Item; projected: boolean };
+
+const MAX_PER_DAY = 3;
+
+// First and last day shown: whole weeks (Sunday to Saturday) covering the period.
+function visibleRange(mode: Mode, anchor: string): [string, string] {
+  const d = fromDateKey(anchor);
+  if (mode === "week") {
+    const start = addDays(anchor, -d.getDay());
+    return [start, addDays(start, 6)];
+  }
+  const first = toDateKey(new Date(d.getFullYear(), d.getMonth(), 1));
+  const last = toDateKey(new Date(d.getFullYear(), d.getMonth() + 1, 0));
+  return [addDays(first, -fromDateKey(first).getDay()), addDays(last, 6 - fromDateKey(last).getDay())];
+}
+
+export function CalendarCard({ items }: { items: Item[] }) {
+  const today = todayKey();
+  const [mode, setMode] = useState<Mode>("month");
+  const [anchor, setAnchor] = useState(today);
+  const [start, end] = visibleRange(mode, anchor);
+
+  const days = useMemo(() => {
+    const out: string[] = [];
+    for (let k = start; k <= end; k = addDays(k, 1)) out.push(k);
+    return out;
+  }, [start, end]);
+
+  const byDay = useMemo(() => {
+    const map = new Map<string, Entry[]>();
+    items.forEach((item) =>
+      occurrencesBetween(item, start, end).forEach(({ date, projected }) => {
+        if (!map.has(date)) map.set(date, []);
+        map.get(date)!.push({ item, projected });
+      })
+    );
+    return map;
+  }, [items, start, end]);
+
+  const step = (dir: 1 | -1) => {
+    const d = fromDateKey(anchor);
+    setAnchor(mode === "week" ? addDays(anchor, 7 * dir) : toDateKey(new Date(d.getFullYear(), d.getMonth() + dir, 1)));
+  };
+  const month = fromDateKey(anchor).getMonth();
+  const title =
+    mode === "month"
+      ? fromDateKey(anchor).toLocaleDateString(undefined, { month: "long", year: "numeric" })
+      : `${fromDateKey(start).toLocaleDateString(undefined, { month: "short", day: "numeric" })} – ${fromDateKey(end).toLocaleDateString(undefined, { month: "short", day: "numeric" })}`;
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">Calendar <CalendarDays className="size-4"/></CardTitle>
+          <div className="flex items-center gap-1">
+            <Button size="sm" variant={mode === "month" ? "default" : "outline"} onClick={() => setMode("month")}>Month</Button>
+            <Button size="sm" variant={mode === "week" ? "default" : "outline"} onClick={() => setMode("week")}>Week</Button>
+          </div>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">{title}</span>
+          <div className="flex items-center gap-1">
+            <Button size="icon" variant="ghost" onClick={() => step(-1)} title="Previous"><ChevronLeft className="size-4"/></Button>
+            <Button size="sm" variant="ghost" onClick={() => setAnchor(today)}>Today</Button>
+            <Button size="icon" variant="ghost" onClick={() => step(1)} title="Next"><ChevronRight className="size-4"/></Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-7 gap-1 text-xs">
+          {WEEKDAYS.map((w) => (
+            <div key={w} className="text-center text-zinc-500">{w}</div>
+          ))}
+          {days.map((day) => {
+            const entries = byDay.get(day) ?? [];
+            const limit = mode === "week" ? entries.length : MAX_PER_DAY;
+            const outside = mode === "month" && fromDateKey(day).getMonth() !== month;
+            return (
+              <div
+                key={day}
+                className={`rounded-md border p-1 ${mode === "week" ? "min-h-40" : "min-h-20"} ${outside ? "bg-zinc-50 text-zinc-400" : "bg-white"} ${day === today ? "ring-2 ring-zinc-900" : ""}`}
+              >
+                <div className="text-right">{fromDateKey(day).getDate()}</div>
+                <div className="grid gap-0.5">
+                  {entries.slice(0, limit).map(({ item, projected }) => (
+                    <div
+                      key={item.id}
+                      title={projected ? `${item.text} (repeat)` : item.text}
+                      className={`truncate rounded px-1 ${projected ? "border border-dashed text-zinc-500" : item.status === "done" ? "bg-zinc-100 line-through text-zinc-500" : day < today ? "bg-red-100 text-red-800" : "bg-zinc-900 text-white"}`}
+                    >
+                      {item.text}
+                    </div>
+                  ))}
+                  {entries.length > limit && <div className="text-zinc-500">+{entries.length - limit} more</div>}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { fmtDue } from "@/lib/due";
+import type { ParsedCapture } from "@/lib/capture";
+import type { Category } from "@/lib/types";
+
+// What the inline tokens in a capture will set, shown before it's submitted.
+export function CapturePreview({ parsed, categories }: { parsed: ParsedCapture; categories: Category[] }) {
+  const { fields, errors } = parsed;
+  if (Object.keys(fields).length === 0 && errors.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 text-xs">
+      {fields.category && <Badge>#{categories.find((c) => c.id === fields.category)?.label ?? fields.category}</Badge>}
+      {fields.term && <Badge variant="secondary">{fields.term}</Badge>}
+      {typeof fields.priority === "number" && <Badge variant="outline">P{fields.priority}</Badge>}
+      {fields.status && <Badge className="capitalize" variant="outline">{fields.status.replace("_", " ")}</Badge>}
+      {fields.due && <Badge variant="outline">Due {fmtDue(fields.due)}</Badge>}
+      {errors.map((e) => (
+        <span key={e} className="text-amber-700">{e}</span>
+      ))}
+    </div>
+  );
+}
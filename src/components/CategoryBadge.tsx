@@ -0,0 +1,37 @@
+import { BookOpen, Briefcase, Code, Dumbbell, Folder, GraduationCap, HeartPulse, House, Leaf, Lightbulb, Music, Plane, ShoppingCart, Star, Users, Wallet } from "lucide-react";
+import type { Category, CategoryIconName } from "@/lib/types";
+import { COLOR_CLASSES } from "@/lib/colors";
+
+const ICONS: Record<CategoryIconName, typeof Folder> = {
+  folder: Folder,
+  briefcase: Briefcase,
+  "graduation-cap": GraduationCap,
+  users: Users,
+  leaf: Leaf,
+  wallet: Wallet,
+  "heart-pulse": HeartPulse,
+  house: House,
+  "book-open": BookOpen,
+  dumbbell: Dumbbell,
+  plane: Plane,
+  code: Code,
+  music: Music,
+  "shopping-cart": ShoppingCart,
+  star: Star,
+  lightbulb: Lightbulb,
+};
+
+export function CategoryIcon({ icon, className = "size-4" }: { icon?: CategoryIconName; className?: string }) {
+  const Icon = ICONS[icon ?? "folder"];
+  return <Icon className={className} aria-hidden />;
+}
+
+// `id` is shown when the category no longer exists.
+export function CategoryBadge({ category, id }: { category?: Category; id: string }) {
+  return (
+    <span className={`inline-flex max-w-48 items-center gap-1 rounded-md border px-2 py-0.5 text-xs font-medium ${COLOR_CLASSES[category?.color ?? "gray"]}`}>
+      <CategoryIcon icon={category?.icon} className="size-3 shrink-0" />
+      <span className="truncate">{category?.label ?? id}</span>
+    </span>
+  );
+}
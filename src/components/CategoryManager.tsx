@@ -0,0 +1,94 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Eye, EyeOff, Pencil, Trash2 } from "lucide-react";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { TagSwatch } from "@/components/TagBadge";
+import { CATEGORY_ICONS, TAG_COLORS } from "@/lib/types";
+import type { Category, CategoryIconName } from "@/lib/types";
+import { canNest, categoryTree } from "@/lib/categories";
+
+type Props = {
+  categories: Category[]; // live ones, hidden included
+  counts: Record<string, number>; // items per category id
+  onUpdate: (id: string, patch: Partial<Category>) => void;
+  onRemove: (id: string) => void;
+};
+
+const selectClass = "rounded-md border bg-white px-1 py-0.5 text-xs";
+
+// Renaming keeps the id, so items, searches (`cat:`) and history stay attached.
+export function CategoryManager({ categories, counts, onUpdate, onRemove }: Props) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+
+  const commit = (c: Category) => {
+    setEditing(null);
+    if (label.trim() && label.trim() !== c.label) onUpdate(c.id, { label: label.trim() });
+  };
+
+  return (
+    <div className="grid gap-2">
+      {categoryTree(categories).map(({ category: c, depth }) => (
+        <div key={c.id} className="grid gap-1 text-sm" style={{ paddingLeft: depth * 12 }}>
+          <div className="flex items-center justify-between gap-1">
+            {editing === c.id ? (
+              <form
+                className="flex flex-1 gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  commit(c);
+                }}
+              >
+                <Input autoFocus value={label} onChange={(e) => setLabel(e.target.value)} onKeyDown={(e) => e.key === "Escape" && setEditing(null)} className="h-7" />
+                <Button type="submit" size="icon" variant="ghost" title="Save"><Check className="size-4" /></Button>
+              </form>
+            ) : (
+              <>
+                <span className={`flex min-w-0 items-center gap-1 ${c.hidden ? "opacity-50" : ""}`}>
+                  <CategoryBadge category={c} id={c.id} />
+                  <span className="text-xs text-zinc-500">{counts[c.id] ?? 0}</span>
+                </span>
+                <span className="flex shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Rename"
+                    onClick={() => {
+                      setEditing(c.id);
+                      setLabel(c.label);
+                    }}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title={c.hidden ? "Show in the sidebar" : "Hide from the sidebar"} aria-pressed={!!c.hidden} onClick={() => onUpdate(c.id, { hidden: c.hidden ? undefined : true })}>
+                    {c.hidden ? <EyeOff className="size-4" /> : <Eye className="size-4" />}
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Delete category" onClick={() => onRemove(c.id)}>
+                    <Trash2 className="size-4" />
+                  </Button>
+                </span>
+              </>
+            )}
+          </div>
+          <div className="flex flex-wrap items-center gap-1 pl-1">
+            {TAG_COLORS.map((color) => (
+              <TagSwatch key={color} color={color} selected={(c.color ?? "gray") === color} onClick={() => onUpdate(c.id, { color: color === "gray" ? undefined : color })} />
+            ))}
+            <select className={selectClass} value={c.icon ?? "folder"} onChange={(e) => onUpdate(c.id, { icon: e.target.value === "folder" ? undefined : (e.target.value as CategoryIconName) })} aria-label={`Icon for ${c.label}`}>
+              {CATEGORY_ICONS.map((icon) => (
+                <option key={icon} value={icon}>{icon.replace("-", " ")}</option>
+              ))}
+            </select>
+            <select className={`${selectClass} max-w-28`} value={c.parent ?? ""} onChange={(e) => onUpdate(c.id, { parent: e.target.value || undefined })} aria-label={`Parent of ${c.label}`}>
+              <option value="">Top level</option>
+              {categories.filter((p) => canNest(categories, c.id, p.id)).map((p) => (
+                <option key={p.id} value={p.id}>In {p.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
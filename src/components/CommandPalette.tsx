@@ -0,0 +1,114 @@
+import { useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Plus } from "lucide-react";
+import type { Category } from "@/lib/types";
+
+export type Command = {
+  id: string;
+  label: string;
+  group: string;
+  hint?: string;
+  run: () => void;
+};
+
+type Props = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  categories: Category[];
+  activeCat: string;
+  commands: Command[];
+  onCapture: (text: string, category: string) => void;
+};
+
+const matches = (label: string, words: string[]) => words.every((w) => label.toLowerCase().includes(w));
+
+/**
+ * Ctrl/Cmd+K palette. Whatever is typed can be captured into any category
+ * (the active one first); the same text also filters the other commands.
+ */
+export function CommandPalette({ open, onOpenChange, categories, activeCat, commands, onCapture }: Props) {
+  const [text, setText] = useState("");
+  const [selected, setSelected] = useState(0);
+
+  const words = text.trim().toLowerCase().split(/\s+/).filter(Boolean);
+  const active = categories.find((c) => c.id === activeCat);
+  const ordered = active ? [active, ...categories.filter((c) => c.id !== activeCat)] : categories;
+  const capture: Command[] = text.trim()
+    ? ordered.map((c) => ({
+        id: `capture:${c.id}`,
+        label: `Add “${text.trim()}” to ${c.label}`,
+        group: "Capture",
+        run: () => onCapture(text, c.id),
+      }))
+    : [];
+  const entries = [...capture, ...commands.filter((c) => matches(`${c.group} ${c.label}`, words))];
+
+  const close = () => {
+    onOpenChange(false);
+    setText("");
+    setSelected(0);
+  };
+
+  const run = (cmd: Command | undefined) => {
+    if (!cmd) return;
+    close();
+    cmd.run();
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const dir = e.key === "ArrowDown" ? 1 : -1;
+      setSelected((i) => (entries.length ? (i + dir + entries.length) % entries.length : 0));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      run(entries[selected]);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => (o ? onOpenChange(true) : close())}>
+      <DialogContent className="max-w-xl gap-2 p-3 bg-white top-[20%] translate-y-0">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <DialogDescription className="sr-only">Type a thought to capture it, or search for a command.</DialogDescription>
+        <Input
+          autoFocus
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value);
+            setSelected(0);
+          }}
+          onKeyDown={onKeyDown}
+          placeholder="Capture a thought, or type a command…"
+          role="combobox"
+          aria-expanded
+          aria-controls="command-list"
+          aria-activedescendant={entries[selected] ? `cmd-${entries[selected].id}` : undefined}
+        />
+        <ul id="command-list" role="listbox" className="max-h-80 overflow-y-auto text-sm">
+          {entries.length === 0 && <li className="px-3 py-6 text-center text-zinc-500">No matching commands.</li>}
+          {entries.map((cmd, i) => (
+            <li
+              key={cmd.id}
+              id={`cmd-${cmd.id}`}
+              role="option"
+              aria-selected={i === selected}
+              onMouseEnter={() => setSelected(i)}
+              onClick={() => run(cmd)}
+              className={`flex items-center justify-between gap-3 rounded-md px-3 py-2 cursor-pointer ${i === selected ? "bg-zinc-900 text-white" : ""}`}
+            >
+              <span className="flex items-center gap-2 truncate">
+                {cmd.group === "Capture" && <Plus className="size-4 shrink-0" />}
+                <span className="truncate">{cmd.label}</span>
+              </span>
+              <span className={`text-xs shrink-0 ${i === selected ? "text-zinc-300" : "text-zinc-500"}`}>{cmd.hint ?? cmd.group}</span>
+            </li>
+          ))}
+        </ul>
+        <p className="px-1 text-xs text-zinc-500">↑/↓ to choose · Enter to run · Esc to close</p>
+      </DialogContent>
+    </Dialog>
+  );
+}
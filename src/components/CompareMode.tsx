@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { EmptyState } from "@/components/EmptyState";
+import { answer, bucket, isSettled, nextPair, rankingPatches, refine, startSession, unsettledCount } from "@/lib/compare";
+import type { Answer } from "@/lib/compare";
+import type { Item } from "@/lib/types";
+
+type Props = {
+  items: Item[];
+  onApply: (patches: Record<string, Partial<Item>>) => void;
+};
+
+/**
+ * Two items side by side: pick the one that matters more (←/→, = for a tie).
+ * The ranking can be applied at any point; it's final once every priority
+ * bucket is settled.
+ */
+export function CompareMode({ items, onApply }: Props) {
+  const [session, setSession] = useState(() => startSession(items.map((i) => i.id)));
+  const root = useRef<HTMLDivElement>(null);
+
+  useEffect(() => root.current?.focus(), []);
+
+  const byId = new Map(items.map((i) => [i.id, i]));
+  // Items added or removed since the session started are left out of it.
+  const order = session.order.filter((id) => byId.has(id));
+  const pair = nextPair(session);
+  const left = pair && byId.get(pair[0]);
+  const right = pair && byId.get(pair[1]);
+  const settled = isSettled(session);
+  const total = Math.max(1, session.order.length);
+  const percent = Math.round(((total - unsettledCount(session)) / total) * 100);
+
+  const pick = (result: Answer) => setSession((s) => answer(s, result));
+  const restart = () => setSession(startSession(items.map((i) => i.id)));
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!pair || e.ctrlKey || e.metaKey || e.altKey) return;
+    const keys: Record<string, Answer> = { ArrowLeft: "a", "1": "a", ArrowRight: "b", "2": "b", ArrowDown: "tie", "=": "tie" };
+    const result = keys[e.key];
+    if (!result) return;
+    e.preventDefault();
+    pick(result);
+  };
+
+  if (items.length < 2) return <EmptyState message="Add at least two items to compare." />;
+
+  const choice = (it: Item | undefined, result: Answer, key: string) =>
+    it && (
+      <button
+        type="button"
+        onClick={() => pick(result)}
+        className="flex min-h-32 flex-col justify-between rounded-xl border bg-white p-4 text-left hover:shadow focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-900"
+      >
+        <span className="whitespace-pre-wrap text-lg">{it.text}</span>
+        <span className="mt-3 flex items-center gap-2 text-xs text-zinc-500">
+          <kbd className="rounded border px-1">{key}</kbd>
+          {it.term && <Badge variant="secondary">{it.term}</Badge>}
+        </span>
+      </button>
+    );
+
+  return (
+    <div ref={root} tabIndex={-1} onKeyDown={onKeyDown} className="grid gap-4 outline-none">
+      <div className="flex items-center gap-3 text-sm">
+        <span className="text-zinc-600 tabular-nums">{session.answers} answered</span>
+        <div className="h-2 flex-1 rounded-full bg-zinc-200" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+          <div className="h-2 rounded-full bg-zinc-900 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <Button size="sm" variant="ghost" onClick={restart}>Start over</Button>
+      </div>
+
+      {pair ? (
+        <>
+          <p className="text-center text-sm text-zinc-600">Which matters more?</p>
+          <div className="grid gap-3 md:grid-cols-2">
+            {choice(left ?? undefined, "a", "←")}
+            {choice(right ?? undefined, "b", "→")}
+          </div>
+          <div className="flex justify-center">
+            <Button size="sm" variant="outline" onClick={() => pick("tie")}>About the same (↓)</Button>
+          </div>
+        </>
+      ) : (
+        <div className="rounded-xl border bg-zinc-50 p-4 text-center text-sm">
+          <p className="font-medium">{session.exact ? "Fully ranked." : "Priorities are settled."}</p>
+          <p className="text-zinc-600">
+            {session.exact ? "Every item has an exact position." : "Items within the same priority aren't ordered yet."}
+          </p>
+        </div>
+      )}
+
+      <ol className="grid gap-1 text-sm">
+        {order.map((id, position) => (
+          <li key={id} className="flex items-center gap-2 rounded-md border bg-white px-3 py-1">
+            <span className="w-6 text-right text-xs text-zinc-400 tabular-nums">{position + 1}</span>
+            <span className="flex-1 truncate">{byId.get(id)!.text}</span>
+            <Badge variant="outline">P{bucket(position, order.length)}</Badge>
+          </li>
+        ))}
+      </ol>
+
+      <div className="flex flex-wrap justify-end gap-2">
+        {settled && !session.exact && (
+          <Button variant="outline" onClick={() => setSession(refine)}>Refine exact order</Button>
+        )}
+        <Button onClick={() => onApply(rankingPatches(order, items))} disabled={session.answers === 0} variant={settled ? "default" : "secondary"}>
+          {settled ? "Apply priorities" : "Apply so far"}
+        </Button>
+      </div>
+    </div>
+  );
+}
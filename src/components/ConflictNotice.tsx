@@ -0,0 +1,63 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { GitCompare } from "lucide-react";
+import type { Item } from "@/lib/types";
+
+export type Resolution = "original" | "copy" | "both";
+
+type Props = {
+  items: Item[];
+  onResolve: (copyId: string, keep: Resolution) => void;
+};
+
+const stamp = (ms: number) => new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+
+function Version({ title, item }: { title: string; item: Item }) {
+  return (
+    <div className="flex-1 rounded-lg border bg-white p-2">
+      <div className="mb-1 flex items-center justify-between text-xs text-zinc-500">
+        <span>{title}</span>
+        <span>edited {stamp(item.updatedAt)}</span>
+      </div>
+      <p className="whitespace-pre-wrap">{item.text}</p>
+      <div className="mt-1 flex flex-wrap gap-1">
+        {item.term && <Badge variant="secondary">{item.term}</Badge>}
+        {typeof item.priority === "number" && <Badge variant="outline">P{item.priority}</Badge>}
+        {item.status && <Badge className="capitalize" variant="outline">{item.status.replace("_", " ")}</Badge>}
+        {item.due && <Badge variant="outline">Due {item.due}</Badge>}
+      </div>
+    </div>
+  );
+}
+
+// Items edited in two tabs at once. Both versions are real items until one is picked.
+export function ConflictNotice({ items, onResolve }: Props) {
+  const copies = items.filter((i) => i.conflictOf);
+  if (!copies.length) return null;
+  const byId = new Map(items.map((i) => [i.id, i]));
+
+  return (
+    <div className="mb-6 grid gap-3 rounded-xl border border-amber-300 bg-amber-50 p-3 text-sm">
+      <p className="flex items-center gap-2 font-medium">
+        <GitCompare className="size-4 text-amber-600" />
+        {copies.length} {copies.length === 1 ? "item was" : "items were"} changed in another tab at the same time. Pick which version to keep.
+      </p>
+      {copies.map((copy) => {
+        const original = byId.get(copy.conflictOf!);
+        return (
+          <div key={copy.id} className="grid gap-2">
+            <div className="flex flex-col gap-2 md:flex-row">
+              {original ? <Version title="Version A" item={original} /> : <p className="flex-1 text-zinc-600">Version A was deleted.</p>}
+              <Version title="Version B" item={copy} />
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" variant="outline" onClick={() => onResolve(copy.id, "original")}>{original ? "Keep A" : "Discard B"}</Button>
+              <Button size="sm" variant="outline" onClick={() => onResolve(copy.id, "copy")}>Keep B</Button>
+              {original && <Button size="sm" variant="ghost" onClick={() => onResolve(copy.id, "both")}>Keep both as separate items</Button>}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { Fragment, useMemo } from "react";
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+import { TERMS } from "@/lib/types";
+import type { Category, Item } from "@/lib/types";
+import { computeStats } from "@/lib/stats";
+import type { WorkflowOf } from "@/lib/workflow";
+import { computeFlow, fmtDuration } from "@/lib/activity";
+import { fmtDate } from "@/lib/utils";
+
+type Props = {
+  items: Item[];
+  archived: Item[]; // put away; counted in the flow numbers only
+  categories: Category[];
+  workflowOf: WorkflowOf; // board columns per category
+  /** Opens search with a query that lists exactly the items behind a tile. */
+  onDrill: (query: string) => void;
+  onClose: () => void;
+};
+
+const NO_TERM = TERMS.map((t) => `-term:${t}`).join(" ");
+
+function Tile({ label, count, query, onDrill, children }: { label: string; count: number; query: string; onDrill: (q: string) => void; children?: ReactNode }) {
+  return (
+    <button
+      type="button"
+      onClick={() => onDrill(query)}
+      title={query}
+      className="rounded-lg border bg-white px-3 py-2 text-left hover:shadow focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-900"
+    >
+      <div className="text-xs text-zinc-500 capitalize">{label}</div>
+      <div className="text-xl font-semibold tabular-nums">{count}</div>
+      {children}
+    </button>
+  );
+}
+
+export function Dashboard({ items, archived, categories, workflowOf, onDrill, onClose }: Props) {
+  const stats = useMemo(() => computeStats(items, categories, workflowOf), [items, categories, workflowOf]);
+  const flow = useMemo(() => computeFlow([...items, ...archived], categories), [items, archived, categories]);
+  const maxPriority = Math.max(1, ...stats.priorities);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Dashboard · all categories ({items.length} items)</CardTitle>
+          <Button size="icon" variant="ghost" onClick={onClose} title="Close dashboard"><X className="size-4" /></Button>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-6">
+        <section className="grid gap-2">
+          <h3 className="text-sm font-medium">By category</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-zinc-500">
+                  <th className="text-left font-normal py-1">Category</th>
+                  <th className="font-normal">Total</th>
+                  {TERMS.map((t) => <th key={t} className="font-normal capitalize">{t}</th>)}
+                  <th className="font-normal">No term</th>
+                  <th className="text-left font-normal pl-2">Board</th>
+                </tr>
+              </thead>
+              <tbody>
+                {stats.categories.map(({ category, total, terms, columns }) => {
+                  const cat = `cat:=${category.id}`;
+                  const cell = (count: number, query: string) => (
+                    <td className="text-center">
+                      <button type="button" className="w-full rounded px-2 py-1 tabular-nums hover:bg-zinc-100 disabled:text-zinc-300" disabled={count === 0} onClick={() => onDrill(query)} title={query}>{count}</button>
+                    </td>
+                  );
+                  return (
+                    <tr key={category.id} className="border-t">
+                      <td className="py-1 pr-2 truncate max-w-48">
+                        <button type="button" className="hover:underline" onClick={() => onDrill(cat)}>{category.label}</button>
+                      </td>
+                      {cell(total, cat)}
+                      {TERMS.map((t) => <Fragment key={t}>{cell(terms[t], `${cat} term:${t}`)}</Fragment>)}
+                      {cell(terms.none, `${cat} ${NO_TERM}`)}
+                      <td className="pl-2">
+                        <div className="flex flex-wrap gap-1">
+                          {columns.map(({ column, count }) => {
+                            const query = `${cat} status:${column.id}`;
+                            return (
+                              <button
+                                key={column.id}
+                                type="button"
+                                className="rounded border px-1.5 py-0.5 text-xs tabular-nums hover:bg-zinc-100 disabled:text-zinc-300"
+                                disabled={count === 0}
+                                onClick={() => onDrill(query)}
+                                title={query}
+                              >
+                                {column.label} {count}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className="grid gap-2">
+          <h3 className="text-sm font-medium" title="Medians over finished items, archived ones included. Only changes made since activity is recorded count.">
+            Flow
+          </h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs text-zinc-500">
+                  <th className="text-left font-normal py-1">Category</th>
+                  <th className="font-normal">Finished</th>
+                  <th className="font-normal" title="Created → done">Lead time</th>
+                  <th className="font-normal" title="First in progress → done">Cycle time</th>
+                  <th className="font-normal" title="Total time items spent blocked">Blocked</th>
+                </tr>
+              </thead>
+              <tbody>
+                {flow.map(({ category, finished, lead, cycle, blocked, blockedItems }) => (
+                  <tr key={category.id} className="border-t text-center tabular-nums">
+                    <td className="py-1 pr-2 truncate max-w-48 text-left">
+                      <button type="button" className="hover:underline" onClick={() => onDrill(`cat:=${category.id}`)}>{category.label}</button>
+                    </td>
+                    <td>{finished}</td>
+                    <td>{lead === undefined ? "—" : fmtDuration(lead)}</td>
+                    <td>{cycle === undefined ? "—" : fmtDuration(cycle)}</td>
+                    <td>{blocked ? `${fmtDuration(blocked)} · ${blockedItems} items` : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </section>
+
+        <section className="grid gap-2">
+          <h3 className="text-sm font-medium">Priority distribution</h3>
+          <div className="grid grid-cols-6 gap-2">
+            {stats.priorities.map((count, p) => (
+              <Tile key={p} label={`P${p}${p === 0 ? " / unset" : ""}`} count={count} query={`p=${p}`} onDrill={onDrill}>
+                <div className="mt-1 h-1.5 rounded-full bg-zinc-100">
+                  <div className="h-1.5 rounded-full bg-zinc-900" style={{ width: `${(count / maxPriority) * 100}%` }} />
+                </div>
+              </Tile>
+            ))}
+          </div>
+        </section>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          <section className="grid gap-2 content-start">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Oldest untriaged</h3>
+              <Button size="sm" variant="ghost" onClick={() => onDrill("is:untriaged")}>All {stats.untriagedCount}</Button>
+            </div>
+            <ItemList items={stats.untriaged} categories={categories} empty="Everything has a term and a priority." onDrill={onDrill} />
+          </section>
+          <section className="grid gap-2 content-start">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium">Blocked</h3>
+              <Button size="sm" variant="ghost" onClick={() => onDrill("status:blocked")}>All {stats.blocked.length}</Button>
+            </div>
+            <ItemList items={stats.blocked.slice(0, 5)} categories={categories} empty="Nothing is blocked." onDrill={onDrill} />
+          </section>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function ItemList({ items, categories, empty, onDrill }: { items: Item[]; categories: Category[]; empty: string; onDrill: (q: string) => void }) {
+  if (!items.length) return <p className="text-sm text-zinc-500">{empty}</p>;
+  return (
+    <ul className="grid gap-1 text-sm">
+      {items.map((it) => (
+        <li key={it.id}>
+          <button
+            type="button"
+            className="flex w-full items-center justify-between gap-2 rounded-md border bg-white px-3 py-2 text-left hover:shadow"
+            onClick={() => onDrill(`cat:=${it.category} "${it.text.split(/["\n]/)[0].trim()}"`)}
+          >
+            <span className="truncate">{it.text}</span>
+            <span className="shrink-0 text-xs text-zinc-500">
+              {categories.find((c) => c.id === it.category)?.label ?? it.category} · {fmtDate(it.createdAt)}
+            </span>
+          </button>
+        </li>
+      ))}
+    </ul>
+  );
+}
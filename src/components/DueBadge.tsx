@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import { Repeat } from "lucide-react";
+import { describeRecurrence, dueState, fmtDue } from "@/lib/due";
+import type { Item } from "@/lib/types";
+
+// Overdue / due today / upcoming badge, plus a repeat marker for recurring items.
+export function DueBadge({ item, today }: { item: Item; today?: string }) {
+  if (!item.due && !item.recurrence) return null;
+  const state = dueState(item, today);
+  return (
+    <>
+      {state === "overdue" && <Badge variant="destructive">Overdue · {fmtDue(item.due!)}</Badge>}
+      {state === "today" && <Badge>Due today</Badge>}
+      {state === "upcoming" && <Badge variant="outline">Due {fmtDue(item.due!)}</Badge>}
+      {item.recurrence && (
+        <Badge variant="outline" title={describeRecurrence(item.recurrence)}>
+          <Repeat className="size-3 mr-1" />{item.recurrence.kind}
+        </Badge>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,5 @@
+export function EmptyState({ message, small }: { message: string; small?: boolean }) {
+  return (
+    <div className={`text-center ${small ? "text-xs" : "text-sm"} text-zinc-500 py-6`}>{message}</div>
+  );
+}
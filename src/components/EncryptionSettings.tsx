@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { Lock } from "lucide-react";
+
+type Props = {
+  enabled: boolean;
+  lockMinutes: number;
+  onLockMinutes: (minutes: number) => void;
+  onEnable: () => void;
+  onChangePassphrase: () => void;
+  onDisable: () => void;
+  onLock: () => void;
+};
+
+const LOCK_OPTIONS = [1, 5, 10, 30, 60, 240];
+
+export function EncryptionSettings({ enabled, lockMinutes, onLockMinutes, onEnable, onChangePassphrase, onDisable, onLock }: Props) {
+  if (!enabled) {
+    return (
+      <div className="grid gap-2 text-sm">
+        <p className="text-xs text-zinc-500">Stored data is readable by anyone with access to this browser. Encrypt it with a passphrase.</p>
+        <Button size="sm" variant="outline" onClick={onEnable}><Lock className="size-4 mr-2" />Encrypt with a passphrase</Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-zinc-500">Encrypted. Locks after</span>
+        <select className="border rounded-md px-2 py-1" value={lockMinutes} onChange={(e) => onLockMinutes(Number(e.target.value))}>
+          {[...new Set([...LOCK_OPTIONS, lockMinutes])].sort((a, b) => a - b).map((m) => (
+            <option key={m} value={m}>{m < 60 ? `${m} min` : `${m / 60} h`}</option>
+          ))}
+        </select>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" variant="outline" onClick={onLock}><Lock className="size-4 mr-2" />Lock now</Button>
+        <Button size="sm" variant="ghost" onClick={onChangePassphrase}>Change passphrase</Button>
+        <Button size="sm" variant="ghost" onClick={onDisable}>Turn off</Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { defaultCategoryMap, planImport, unknownCategories } from "@/lib/import";
+import type { ImportMode, ImportPlan, ImportSource, ParseResult, Resolution } from "@/lib/import";
+import type { Category, Item } from "@/lib/types";
+import { fmtDate } from "@/lib/utils";
+
+type Props = {
+  fileName: string;
+  result: ParseResult;
+  items: Item[];
+  categories: Category[];
+  onApply: (plan: ImportPlan) => void;
+  onClose: () => void;
+};
+
+export function ImportDialog({ fileName, result, items, categories, onApply, onClose }: Props) {
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto bg-white">
+        <DialogHeader>
+          <DialogTitle>Import {fileName}</DialogTitle>
+          <DialogDescription>
+            {result.ok
+              ? `Found ${result.source.items.length} items and ${result.source.categories.length} categories. Nothing changes until you apply.`
+              : "This file can't be imported."}
+          </DialogDescription>
+        </DialogHeader>
+        {result.ok ? (
+          <ImportPreview source={result.source} items={items} categories={categories} onApply={onApply} onClose={onClose} />
+        ) : (
+          <>
+            <p className="text-sm text-red-600">{result.error}</p>
+            <DialogFooter>
+              <Button variant="outline" onClick={onClose}>Close</Button>
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function ImportPreview({ source, items, categories, onApply, onClose }: Omit<Props, "fileName" | "result"> & { source: ImportSource }) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [resolutions, setResolutions] = useState<Record<string, Resolution>>({});
+  const [mapOverrides, setMapOverrides] = useState<Record<string, string>>({});
+
+  const unknown = useMemo(() => unknownCategories(source, mode, categories), [source, mode, categories]);
+  const targets = mode === "merge" ? categories : source.categories;
+  const categoryMap = { ...defaultCategoryMap(unknown, targets), ...mapOverrides };
+  const plan = planImport(items, categories, source, { mode, resolutions, categoryMap });
+
+  return (
+    <div className="grid gap-4 text-sm">
+      {source.warnings.map((w) => (
+        <p key={w} className="rounded-md border border-amber-300 bg-amber-50 px-3 py-2 text-xs">{w}</p>
+      ))}
+
+      <div className="grid gap-2">
+        <div className="flex gap-2">
+          <Button size="sm" variant={mode === "merge" ? "default" : "outline"} onClick={() => { setMode("merge"); setMapOverrides({}); }}>Merge</Button>
+          <Button size="sm" variant={mode === "replace" ? "default" : "outline"} onClick={() => { setMode("replace"); setMapOverrides({}); }}>Replace</Button>
+        </div>
+        <p className="text-xs text-zinc-500">
+          {mode === "merge"
+            ? "Adds new items and updates existing ones matched by id. Your other items stay as they are."
+            : "Replaces all current items and categories with the file's contents."}
+        </p>
+      </div>
+
+      {unknown.length > 0 && (
+        <section className="grid gap-2">
+          <h3 className="font-medium">Unknown categories</h3>
+          {unknown.map((c) => (
+            <div key={c.id} className="flex items-center justify-between gap-3 rounded-md border px-3 py-2">
+              <span className="truncate">{c.label}</span>
+              <select
+                className="rounded-md border px-2 py-1 text-sm"
+                value={categoryMap[c.id]}
+                onChange={(e) => setMapOverrides((prev) => ({ ...prev, [c.id]: e.target.value }))}
+              >
+                <option value={c.id}>Create “{c.label}”</option>
+                {targets.map((t) => (
+                  <option key={t.id} value={t.id}>Map to {t.label}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </section>
+      )}
+
+      {plan.conflicts.length > 0 && (
+        <section className="grid gap-2">
+          <h3 className="font-medium">Conflicts ({plan.conflicts.length})</h3>
+          {plan.conflicts.map(({ local, incoming, resolution, takeIncoming }) => (
+            <div key={local.id} className="grid gap-2 rounded-md border px-3 py-2">
+              <div className="grid grid-cols-2 gap-3">
+                <div className={takeIncoming ? "opacity-50" : ""}>
+                  <div className="text-xs text-zinc-500">Yours · {fmtDate(local.updatedAt)}</div>
+                  <div className="whitespace-pre-wrap">{local.text}</div>
+                </div>
+                <div className={takeIncoming ? "" : "opacity-50"}>
+                  <div className="text-xs text-zinc-500">Imported · {fmtDate(incoming.updatedAt)}</div>
+                  <div className="whitespace-pre-wrap">{incoming.text}</div>
+                </div>
+              </div>
+              <select
+                className="w-fit rounded-md border px-2 py-1 text-sm"
+                value={resolution}
+                onChange={(e) => setResolutions((prev) => ({ ...prev, [local.id]: e.target.value as Resolution }))}
+              >
+                <option value="newest">Newest change wins</option>
+                <option value="local">Keep mine</option>
+                <option value="incoming">Use imported</option>
+              </select>
+            </div>
+          ))}
+        </section>
+      )}
+
+      <section className="grid gap-2">
+        <h3 className="font-medium">Dry run</h3>
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="secondary">{plan.added.length} added</Badge>
+          <Badge variant="secondary">{plan.updated.length} updated</Badge>
+          <Badge variant="outline">{plan.skipped.length} skipped</Badge>
+          {mode === "replace" && <Badge variant="destructive">{plan.removed.length} removed</Badge>}
+        </div>
+        {plan.skipped.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto text-xs text-zinc-600 list-disc pl-4">
+            {plan.skipped.map((s, i) => (
+              <li key={i}><span className="text-zinc-900">{s.text}</span> — {s.reason}</li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <DialogFooter>
+        <Button variant="outline" onClick={onClose}>Cancel</Button>
+        <Button onClick={() => onApply(plan)}>{mode === "merge" ? "Merge" : "Replace"}</Button>
+      </DialogFooter>
+    </div>
+  );
+}
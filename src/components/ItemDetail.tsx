@@ -0,0 +1,73 @@
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import type { Activity, Category, Item, WorkflowStatus } from "@/lib/types";
+import { fmtDuration, itemFlow } from "@/lib/activity";
+import { fmtDate } from "@/lib/utils";
+
+type Props = {
+  item: Item;
+  categories: Category[]; // including trashed ones, for old labels
+  workflow: WorkflowStatus[]; // the item's board columns, for column names
+  onClose: () => void;
+};
+
+const FIELD_LABELS: Record<Activity["field"], string> = { status: "Status", stage: "Column", term: "Term", priority: "Priority", category: "Category" };
+
+// An item's flow numbers and the history of its tracked fields, newest first.
+export function ItemDetail({ item, categories, workflow, onClose }: Props) {
+  const labels = new Map(categories.map((c) => [c.id, c.label]));
+  const flow = itemFlow(item);
+  const entries = [...(item.activity ?? [])].reverse();
+
+  const show = (a: Activity, value: Activity["from"]) => {
+    if (value === undefined || value === null) return "—";
+    if (a.field === "priority") return `P${value}`;
+    if (a.field === "category") return labels.get(String(value)) ?? String(value);
+    if (a.field === "stage") return workflow.find((c) => c.id === value)?.label ?? String(value);
+    return String(value).replace("_", " ");
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg bg-white">
+        <DialogHeader>
+          <DialogTitle className="whitespace-pre-wrap">{item.text}</DialogTitle>
+          <DialogDescription>
+            {labels.get(item.category) ?? item.category} · created {fmtDate(item.createdAt)}
+          </DialogDescription>
+        </DialogHeader>
+        <dl className="grid grid-cols-3 gap-2 text-sm">
+          <Metric label="Lead time" value={flow.lead} hint="Created → done" />
+          <Metric label="Cycle time" value={flow.cycle} hint="First in progress → done" />
+          <Metric label="Blocked" value={flow.blocked || undefined} hint="Total time in blocked" />
+        </dl>
+        <ol className="grid max-h-80 gap-2 overflow-y-auto text-sm" aria-label="Activity">
+          {entries.map((a, idx) => (
+            <li key={`${a.at}-${a.field}-${idx}`} className="flex items-start gap-2">
+              <Badge variant="outline" className="shrink-0">{FIELD_LABELS[a.field]}</Badge>
+              <span className={`flex-1 ${a.field === "status" || a.field === "term" ? "capitalize" : ""}`}>
+                {show(a, a.from)} → {show(a, a.to)}
+              </span>
+              <span className="shrink-0 text-xs text-zinc-500">{fmtDate(a.at)}</span>
+            </li>
+          ))}
+          <li className="flex items-start gap-2 text-zinc-500">
+            <Badge variant="outline" className="shrink-0">Created</Badge>
+            <span className="flex-1" />
+            <span className="shrink-0 text-xs">{fmtDate(item.createdAt)}</span>
+          </li>
+        </ol>
+        {!entries.length && <p className="text-xs text-zinc-500">No changes to status, column, term, priority or category yet.</p>}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function Metric({ label, value, hint }: { label: string; value?: number; hint: string }) {
+  return (
+    <div className="rounded-lg border px-3 py-2" title={hint}>
+      <dt className="text-xs text-zinc-500">{label}</dt>
+      <dd className="font-semibold tabular-nums">{value === undefined ? "—" : fmtDuration(value)}</dd>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import { History, Trash2 } from "lucide-react";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { DueBadge } from "@/components/DueBadge";
+import { Subtasks } from "@/components/Subtasks";
+import { TagBadge } from "@/components/TagBadge";
+import { DEFAULT_WORKFLOW, TERMS } from "@/lib/types";
+import type { Category, Item, Recurrence, Term, WorkflowStatus } from "@/lib/types";
+import { columnOf } from "@/lib/workflow";
+import { fmtDate } from "@/lib/utils";
+import { WEEKDAYS, fromDateKey, todayKey } from "@/lib/due";
+import { normalizeTag } from "@/lib/tags";
+import type { TagInfo } from "@/lib/tags";
+
+export function ItemRow({ item, category, tags = [], selected, onSelect, onChange, onRemove, onOpen, workflow = DEFAULT_WORKFLOW, showTerm, showPriority, showStatus, showDue }: { item: Item; category?: Category; workflow?: WorkflowStatus[]; tags?: TagInfo[]; selected?: boolean; onSelect?: (range: boolean) => void; onChange: (patch: Partial<Item>) => void; onRemove: () => void; onOpen?: () => void; showTerm?: boolean; showPriority?: boolean; showStatus?: boolean; showDue?: boolean; }) {
+  return (
+    <div className={`flex items-start gap-3 rounded-xl border bg-white p-3 ${selected ? "ring-2 ring-zinc-900" : ""}`}>
+      {onSelect && (
+        <input
+          type="checkbox"
+          className="mt-1.5"
+          checked={!!selected}
+          readOnly
+          onClick={(e) => onSelect(e.shiftKey)}
+          aria-label={`Select: ${item.text}`}
+          title="Select (Shift+click for a range)"
+        />
+      )}
+      <div className="flex-1">
+        <div className="flex items-center gap-2 mb-1">
+          {category && <CategoryBadge category={category} id={item.category} />}
+          <Badge variant="outline">{fmtDate(item.createdAt)}</Badge>
+          {item.term && <Badge variant="secondary">{item.term}</Badge>}
+          {typeof item.priority === "number" && <Badge variant="secondary">P{item.priority}</Badge>}
+          {item.status && <Badge variant="outline">{columnOf(item, workflow).label}</Badge>}
+          <DueBadge item={item} />
+        </div>
+        <div className="whitespace-pre-wrap">{item.text}</div>
+        <TagEditor item={item} tags={tags} onChange={onChange} />
+        <Subtasks item={item} onChange={onChange} />
+      </div>
+      <div className="flex flex-col gap-2 min-w-52">
+        {showTerm && (
+          <div className="px-2 py-1 rounded-md border bg-white">
+            <label className="text-xs text-zinc-600">Term</label>
+            <select
+              className="mt-1 w-full rounded-md border px-2 py-1 text-sm"
+              value={item.term ?? ""}
+              onChange={(e) =>
+                onChange({ term: (e.target.value || undefined) as Term | undefined })
+              }
+            >
+              <option value="">— set term —</option>
+              {TERMS.map((t) => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {showPriority && (
+          <div className="px-2 py-1 rounded-md border">
+            <div className="flex items-center justify-between text-xs mb-1">
+              <span>Priority</span>
+              <span>{item.priority ?? 0}</span>
+            </div>
+            <Slider value={[item.priority ?? 0]} max={5} step={1} onValueChange={(v) => onChange({ priority: v[0] })} />
+          </div>
+        )}
+        {showStatus && (
+          <div className="px-2 py-1 rounded-md border bg-white">
+            <label className="text-xs text-zinc-600">Status</label>
+            <select
+              className="mt-1 w-full rounded-md border px-2 py-1 text-sm"
+              value={item.status ? columnOf(item, workflow).id : ""}
+              onChange={(e) => {
+                const column = workflow.find((c) => c.id === e.target.value);
+                onChange(column ? { stage: column.id, status: column.kind } : { stage: undefined, status: undefined });
+              }}
+            >
+              <option value="">— set status —</option>
+              {workflow.map((c) => (
+                <option key={c.id} value={c.id}>{c.label}</option>
+              ))}
+            </select>
+          </div>
+        )}
+        {showDue && <DueEditor item={item} onChange={onChange} />}
+        <div className="flex gap-1">
+          {onOpen && <Button variant="ghost" size="icon" onClick={onOpen} title="History"><History className="size-4" /></Button>}
+          <Button variant="ghost" size="icon" onClick={onRemove} title="Delete item"><Trash2 className="size-4"/></Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Tag chips plus an input that suggests tags already used elsewhere.
+function TagEditor({ item, tags, onChange }: { item: Item; tags: TagInfo[]; onChange: (patch: Partial<Item>) => void }) {
+  const [text, setText] = useState("");
+  const current = item.tags ?? [];
+  const query = normalizeTag(text);
+  const suggestions = query ? tags.filter((t) => t.name.includes(query) && !current.includes(t.name)).slice(0, 5) : [];
+  const colors = new Map(tags.map((t) => [t.name, t.color]));
+
+  const add = (name: string) => {
+    const tag = normalizeTag(name);
+    if (tag && !current.includes(tag)) onChange({ tags: [...current, tag] });
+    setText("");
+  };
+  const remove = (name: string) => {
+    const next = current.filter((t) => t !== name);
+    onChange({ tags: next.length ? next : undefined });
+  };
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-1">
+      {current.map((t) => (
+        <TagBadge key={t} name={t} color={colors.get(t)} onRemove={() => remove(t)} />
+      ))}
+      <div className="relative">
+        <input
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onBlur={() => setText("")}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" || e.key === ",") {
+              e.preventDefault();
+              add(suggestions.find((s) => s.name === query)?.name ?? text);
+            } else if (e.key === "Tab" && suggestions.length) {
+              e.preventDefault();
+              add(suggestions[0].name);
+            } else if (e.key === "Backspace" && !text && current.length) {
+              remove(current[current.length - 1]);
+            }
+          }}
+          placeholder="+ tag"
+          aria-label="Add tag"
+          className="w-24 rounded-md border border-transparent px-1 text-xs hover:border-zinc-200 focus:border-zinc-300 focus:outline-none"
+        />
+        {suggestions.length > 0 && (
+          <ul className="absolute z-10 mt-1 min-w-32 rounded-md border bg-white py-1 text-xs shadow">
+            {suggestions.map((s) => (
+              <li key={s.name}>
+                <button
+                  type="button"
+                  className="flex w-full justify-between gap-2 px-2 py-1 text-left hover:bg-zinc-100"
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => add(s.name)}
+                >
+                  <span>#{s.name}</span>
+                  <span className="text-zinc-400">{s.count}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function DueEditor({ item, onChange }: { item: Item; onChange: (patch: Partial<Item>) => void }) {
+  const anchor = fromDateKey(item.due ?? todayKey());
+  const setKind = (kind: string) => {
+    const rules: Record<string, Recurrence | undefined> = {
+      daily: { kind: "daily" },
+      weekly: { kind: "weekly", weekdays: [anchor.getDay()] },
+      monthly: { kind: "monthly", day: anchor.getDate() },
+    };
+    const recurrence = rules[kind];
+    // A repeat needs a starting day; default to today.
+    onChange(recurrence && !item.due ? { recurrence, due: todayKey() } : { recurrence });
+  };
+  const toggleWeekday = (d: number) => {
+    if (item.recurrence?.kind !== "weekly") return;
+    const days = item.recurrence.weekdays;
+    const weekdays = days.includes(d) ? days.filter((x) => x !== d) : [...days, d].sort((a, b) => a - b);
+    onChange({ recurrence: { kind: "weekly", weekdays } });
+  };
+
+  return (
+    <div className="px-2 py-1 rounded-md border bg-white grid gap-1">
+      <label className="text-xs text-zinc-600">Due</label>
+      <input
+        type="date"
+        className="w-full rounded-md border px-2 py-1 text-sm"
+        value={item.due ?? ""}
+        onChange={(e) => onChange({ due: e.target.value || undefined, ...(e.target.value ? {} : { recurrence: undefined }) })}
+      />
+      <select
+        className="w-full rounded-md border px-2 py-1 text-sm"
+        value={item.recurrence?.kind ?? ""}
+        onChange={(e) => setKind(e.target.value)}
+      >
+        <option value="">Doesn't repeat</option>
+        <option value="daily">Daily</option>
+        <option value="weekly">Weekly</option>
+        <option value="monthly">Monthly</option>
+      </select>
+      {item.recurrence?.kind === "weekly" && (
+        <div className="flex gap-1">
+          {WEEKDAYS.map((w, d) => (
+            <button
+              key={w}
+              type="button"
+              title={w}
+              aria-pressed={item.recurrence?.kind === "weekly" && item.recurrence.weekdays.includes(d)}
+              onClick={() => toggleWeekday(d)}
+              className={`size-6 rounded text-xs border ${item.recurrence?.kind === "weekly" && item.recurrence.weekdays.includes(d) ? "bg-zinc-900 text-white" : "bg-white"}`}
+            >
+              {w[0]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
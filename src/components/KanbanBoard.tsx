@@ -0,0 +1,200 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { History } from "lucide-react";
+import { EmptyState } from "@/components/EmptyState";
+import { DueBadge } from "@/components/DueBadge";
+import { Subtasks } from "@/components/Subtasks";
+import { TagBadge } from "@/components/TagBadge";
+import type { Item, WorkflowStatus } from "@/lib/types";
+import { groupColumns, planMove } from "@/lib/kanban";
+import { ICON_CLASSES } from "@/lib/colors";
+import type { TagInfo } from "@/lib/tags";
+
+type Props = {
+  items: Item[]; // the whole category, so WIP limits count cards a filter hides
+  shown?: (item: Item) => boolean; // cards to draw
+  workflow: WorkflowStatus[]; // the columns, in order
+  tags?: TagInfo[];
+  onReorder: (patches: Record<string, Partial<Item>>) => void;
+  onOpen?: (id: string) => void;
+};
+
+export function KanbanBoard({ items, shown, workflow, tags = [], onReorder, onOpen }: Props) {
+  const all = useMemo(() => groupColumns(items, workflow), [items, workflow]);
+  const columns = shown ? Object.fromEntries(Object.entries(all).map(([id, list]) => [id, list.filter(shown)])) : all;
+  const colors = new Map(tags.map((t) => [t.name, t.color]));
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ status: string; index: number } | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // A card moved to another column remounts there; keep keyboard focus on it.
+  useEffect(() => {
+    if (!focusId) return;
+    cardRefs.current.get(focusId)?.focus();
+    setFocusId(null);
+  }, [all, focusId]);
+
+  const move = (it: Item, to: WorkflowStatus, index: number) => {
+    const patches = planMove(all, it.id, to, index, shown);
+    if (Object.keys(patches).length === 0) return;
+    onReorder(patches);
+    const size = columns[to.id].length + (columns[to.id].includes(it) ? 0 : 1);
+    const position = Math.max(0, Math.min(index, size - 1)) + 1;
+    setAnnouncement(`Moved "${it.text}" to ${to.label}, position ${position} of ${size}.`);
+  };
+
+  const onCardKeyDown = (e: KeyboardEvent, it: Item, column: WorkflowStatus, index: number) => {
+    if (!e.altKey) return;
+    const col = workflow.indexOf(column);
+    const targets: Record<string, [WorkflowStatus | undefined, number]> = {
+      ArrowUp: [column, index - 1],
+      ArrowDown: [column, index + 1],
+      ArrowLeft: [workflow[col - 1], index],
+      ArrowRight: [workflow[col + 1], index],
+    };
+    const target = targets[e.key];
+    if (!target) return;
+    e.preventDefault();
+    const [to, toIndex] = target;
+    if (!to || toIndex < 0) return;
+    setFocusId(it.id);
+    move(it, to, toIndex);
+  };
+
+  const onCardDragOver = (e: DragEvent<HTMLDivElement>, status: string, index: number) => {
+    if (!dragId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const before = e.clientY < rect.top + rect.height / 2;
+    setDropTarget({ status, index: before ? index : index + 1 });
+  };
+
+  const onColumnDragOver = (e: DragEvent<HTMLDivElement>, status: string) => {
+    if (!dragId) return;
+    e.preventDefault();
+    if (dropTarget?.status !== status) setDropTarget({ status, index: columns[status].length });
+  };
+
+  const onDrop = (e: DragEvent<HTMLDivElement>, column: WorkflowStatus) => {
+    e.preventDefault();
+    const it = items.find((i) => i.id === dragId);
+    if (it && dropTarget?.status === column.id) {
+      // dropTarget.index is a slot in the column as drawn, which still contains
+      // the dragged card; planMove wants the position after it's taken out.
+      const from = columns[column.id].findIndex((i) => i.id === it.id);
+      move(it, column, from !== -1 && from < dropTarget.index ? dropTarget.index - 1 : dropTarget.index);
+    }
+    setDragId(null);
+    setDropTarget(null);
+  };
+
+  const dropIndicator = <div className="h-0.5 rounded bg-zinc-900" aria-hidden />;
+
+  return (
+    <div className="grid gap-2">
+      <div className="grid grid-cols-1 gap-3 md:grid-flow-col md:auto-cols-[minmax(12rem,1fr)] md:overflow-x-auto">
+        {workflow.map((column) => {
+          const s = column.id;
+          const over = column.wip !== undefined && all[s].length > column.wip;
+          return (
+            <Card
+              key={s}
+              className={`min-h-[220px] ${over ? "border-red-300 bg-red-50" : ""} ${dropTarget?.status === s ? "ring-2 ring-zinc-300" : ""}`}
+              onDragOver={(e) => onColumnDragOver(e, s)}
+              onDrop={(e) => onDrop(e, column)}
+            >
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm flex items-center justify-between gap-2">
+                  <span className="flex min-w-0 items-center gap-2">
+                    {column.color && <span className={`text-xs ${ICON_CLASSES[column.color]}`} aria-hidden>●</span>}
+                    <span className="truncate">{column.label}</span>
+                  </span>
+                  <span className={`text-xs font-normal tabular-nums ${over ? "text-red-700" : "text-zinc-500"}`} title={column.wip !== undefined ? `WIP limit ${column.wip}` : undefined}>
+                    {columns[s].length !== all[s].length && `${columns[s].length} shown · `}{all[s].length}{column.wip !== undefined && ` / ${column.wip}`}
+                  </span>
+                </CardTitle>
+                {over && <p className="text-xs text-red-700">Over the WIP limit</p>}
+              </CardHeader>
+              <CardContent className="space-y-2" role="list" aria-label={column.label}>
+                {columns[s].length === 0 && dropTarget?.status !== s ? (
+                  <EmptyState small message="No cards" />
+                ) : (
+                  columns[s].map((it, idx) => (
+                    <div key={it.id} className="space-y-2">
+                      {dropTarget?.status === s && dropTarget.index === idx && dropIndicator}
+                      <div
+                        ref={(el) => {
+                          if (el) cardRefs.current.set(it.id, el);
+                          else cardRefs.current.delete(it.id);
+                        }}
+                        role="listitem"
+                        tabIndex={0}
+                        draggable
+                        aria-label={`${it.text}. Alt+arrow keys to move.`}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = "move";
+                          e.dataTransfer.setData("text/plain", it.id);
+                          setDragId(it.id);
+                        }}
+                        onDragEnd={() => {
+                          setDragId(null);
+                          setDropTarget(null);
+                        }}
+                        onDragOver={(e) => onCardDragOver(e, s, idx)}
+                        onKeyDown={(e) => onCardKeyDown(e, it, column, idx)}
+                        className={`rounded-lg border bg-white p-2 cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-900 ${dragId === it.id ? "opacity-40" : ""}`}
+                      >
+                        <div className="text-sm mb-1">{it.text}</div>
+                        <div className="flex flex-wrap gap-1 mb-1 empty:hidden">
+                          <DueBadge item={it} />
+                          {it.tags?.map((t) => <TagBadge key={t} name={t} color={colors.get(t)} />)}
+                        </div>
+                        <Subtasks item={it} />
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            {it.term && <Badge variant="secondary">{it.term}</Badge>}
+                            {typeof it.priority === "number" && <Badge variant="outline">P{it.priority}</Badge>}
+                          </div>
+                          <div className="flex items-center gap-1">
+                            {onOpen && (
+                              <Button size="icon" variant="ghost" className="size-8" onClick={() => onOpen(it.id)} title="History"><History className="size-4" /></Button>
+                            )}
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="sm" variant="outline">Move</Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent>
+                                {workflow.map((dest) => (
+                                  <DropdownMenuItem key={dest.id} disabled={dest.id === s} onClick={() => move(it, dest, columns[dest.id].length)}>{dest.label}</DropdownMenuItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuItem disabled={idx === 0} onClick={() => move(it, column, 0)}>To top</DropdownMenuItem>
+                                <DropdownMenuItem disabled={idx === 0} onClick={() => move(it, column, idx - 1)}>Up one</DropdownMenuItem>
+                                <DropdownMenuItem disabled={idx === columns[s].length - 1} onClick={() => move(it, column, idx + 1)}>Down one</DropdownMenuItem>
+                                <DropdownMenuItem disabled={idx === columns[s].length - 1} onClick={() => move(it, column, columns[s].length - 1)}>To bottom</DropdownMenuItem>
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  ))
+                )}
+                {dropTarget?.status === s && dropTarget.index === columns[s].length && dropIndicator}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+      <p className="text-xs text-zinc-500">Drag cards between columns or within one. With a card focused, Alt+↑/↓ reorders and Alt+←/→ changes column.</p>
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+    </div>
+  );
+}
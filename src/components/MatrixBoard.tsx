@@ -0,0 +1,142 @@
+import { useEffect, useRef, useState } from "react";
+import type { DragEvent, KeyboardEvent } from "react";
+import { Badge } from "@/components/ui/badge";
+import { EmptyState } from "@/components/EmptyState";
+import { DueBadge } from "@/components/DueBadge";
+import { QUADRANTS } from "@/lib/types";
+import type { Item, Quadrant } from "@/lib/types";
+import { QUADRANT_INFO, placeIn } from "@/lib/matrix";
+
+type Props = {
+  items: Item[];
+  onChange: (id: string, patch: Partial<Item>) => void;
+};
+
+type Zone = Quadrant | "unplaced";
+
+export function MatrixBoard({ items, onChange }: Props) {
+  const [dragId, setDragId] = useState<string | null>(null);
+  const [over, setOver] = useState<Zone | null>(null);
+  const [announcement, setAnnouncement] = useState("");
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const cardRefs = useRef(new Map<string, HTMLDivElement>());
+
+  // A placed card remounts in its new quadrant; keep keyboard focus on it.
+  useEffect(() => {
+    if (!focusId) return;
+    cardRefs.current.get(focusId)?.focus();
+    setFocusId(null);
+  }, [items, focusId]);
+
+  const place = (it: Item, zone: Zone) => {
+    if ((it.quadrant ?? "unplaced") === zone) return;
+    const quadrant = zone === "unplaced" ? undefined : zone;
+    onChange(it.id, placeIn(quadrant));
+    setAnnouncement(quadrant ? `Moved "${it.text}" to ${QUADRANT_INFO[quadrant].label}, priority ${QUADRANT_INFO[quadrant].priority}.` : `Removed "${it.text}" from the matrix.`);
+  };
+
+  const onCardKeyDown = (e: KeyboardEvent, it: Item) => {
+    const zone = e.key === "0" ? "unplaced" : QUADRANTS[Number(e.key) - 1];
+    if (!zone || e.ctrlKey || e.metaKey || e.altKey) return;
+    e.preventDefault();
+    setFocusId(it.id);
+    place(it, zone);
+  };
+
+  const zoneProps = (zone: Zone) => ({
+    onDragOver: (e: DragEvent) => {
+      if (!dragId) return;
+      e.preventDefault();
+      setOver(zone);
+    },
+    onDragLeave: () => setOver((z) => (z === zone ? null : z)),
+    onDrop: (e: DragEvent) => {
+      e.preventDefault();
+      const it = items.find((i) => i.id === dragId);
+      if (it) place(it, zone);
+      setDragId(null);
+      setOver(null);
+    },
+  });
+
+  const card = (it: Item) => (
+    <div
+      key={it.id}
+      ref={(el) => {
+        if (el) cardRefs.current.set(it.id, el);
+        else cardRefs.current.delete(it.id);
+      }}
+      role="listitem"
+      tabIndex={0}
+      draggable
+      aria-label={`${it.text}. Keys 1 to 4 place it, 0 removes it.`}
+      onDragStart={(e) => {
+        e.dataTransfer.effectAllowed = "move";
+        e.dataTransfer.setData("text/plain", it.id);
+        setDragId(it.id);
+      }}
+      onDragEnd={() => {
+        setDragId(null);
+        setOver(null);
+      }}
+      onKeyDown={(e) => onCardKeyDown(e, it)}
+      className={`rounded-lg border bg-white p-2 text-sm cursor-grab focus:outline-none focus-visible:ring-2 focus-visible:ring-zinc-900 ${dragId === it.id ? "opacity-40" : ""}`}
+    >
+      <div className="mb-1">{it.text}</div>
+      <div className="flex flex-wrap gap-1 empty:hidden">
+        {it.term && <Badge variant="secondary">{it.term}</Badge>}
+        {typeof it.priority === "number" && <Badge variant="outline">P{it.priority}</Badge>}
+        <DueBadge item={it} />
+      </div>
+    </div>
+  );
+
+  const unplaced = items.filter((i) => !i.quadrant);
+  const ring = (zone: Zone) => (over === zone ? "ring-2 ring-zinc-400" : "");
+
+  return (
+    <div className="grid gap-3">
+      <div className="grid grid-cols-[auto_1fr_1fr] gap-2">
+        <div />
+        <div className="text-center text-xs font-medium uppercase tracking-wide text-zinc-500">Urgent</div>
+        <div className="text-center text-xs font-medium uppercase tracking-wide text-zinc-500">Not urgent</div>
+        {[true, false].map((important) => (
+          <div key={String(important)} className="contents">
+            <div className="flex items-center text-xs font-medium uppercase tracking-wide text-zinc-500 [writing-mode:vertical-rl] rotate-180">
+              {important ? "Important" : "Not important"}
+            </div>
+            {QUADRANTS.filter((q) => QUADRANT_INFO[q].important === important)
+              .sort((a, b) => Number(QUADRANT_INFO[b].urgent) - Number(QUADRANT_INFO[a].urgent))
+              .map((q) => {
+                const inQuadrant = items.filter((i) => i.quadrant === q);
+                return (
+                  <div key={q} {...zoneProps(q)} className={`min-h-40 rounded-xl border bg-zinc-50 p-2 ${ring(q)}`}>
+                    <div className="mb-2 flex items-baseline justify-between">
+                      <span className="text-sm font-medium">
+                        <kbd className="mr-1 text-xs text-zinc-400">{QUADRANTS.indexOf(q) + 1}</kbd>
+                        {QUADRANT_INFO[q].label}
+                      </span>
+                      <span className="text-xs text-zinc-500">{QUADRANT_INFO[q].hint} · P{QUADRANT_INFO[q].priority}</span>
+                    </div>
+                    <div className="grid gap-2" role="list" aria-label={QUADRANT_INFO[q].label}>
+                      {inQuadrant.length ? inQuadrant.map(card) : <EmptyState small message="Drop items here" />}
+                    </div>
+                  </div>
+                );
+              })}
+          </div>
+        ))}
+      </div>
+      <div {...zoneProps("unplaced")} className={`rounded-xl border border-dashed p-2 ${ring("unplaced")}`}>
+        <div className="mb-2 text-sm font-medium">
+          <kbd className="mr-1 text-xs text-zinc-400">0</kbd>Not placed yet ({unplaced.length})
+        </div>
+        <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3" role="list" aria-label="Not placed yet">
+          {unplaced.map(card)}
+        </div>
+      </div>
+      <p className="text-xs text-zinc-500">Drag items into a quadrant, or focus one and press 1–4 (0 takes it out). Placing an item sets its priority.</p>
+      <div className="sr-only" aria-live="polite">{announcement}</div>
+    </div>
+  );
+}
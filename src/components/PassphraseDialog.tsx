@@ -0,0 +1,72 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+
+export type Passphrases = { current: string; next: string };
+
+type Props = {
+  title: string;
+  description: string;
+  askCurrent?: boolean; // an existing passphrase, checked by `onSubmit`
+  askNew?: boolean; // a new passphrase, typed twice
+  submitLabel: string;
+  onSubmit: (p: Passphrases) => Promise<void>; // a rejection's message is shown in the dialog
+  onClose: () => void;
+};
+
+const MIN_LENGTH = 8;
+
+export function PassphraseDialog({ title, description, askCurrent, askNew, submitLabel, onSubmit, onClose }: Props) {
+  const [current, setCurrent] = useState("");
+  const [next, setNext] = useState("");
+  const [repeat, setRepeat] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    if (askNew && next.length < MIN_LENGTH) return setError(`Use at least ${MIN_LENGTH} characters.`);
+    if (askNew && next !== repeat) return setError("The passphrases don't match.");
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit({ current, next });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Something went wrong.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="max-w-md bg-white">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="grid gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            submit();
+          }}
+        >
+          {askCurrent && (
+            <Input type="password" autoFocus value={current} onChange={(e) => setCurrent(e.target.value)} placeholder={askNew ? "Current passphrase" : "Passphrase"} />
+          )}
+          {askNew && (
+            <>
+              <Input type="password" autoFocus={!askCurrent} value={next} onChange={(e) => setNext(e.target.value)} placeholder="New passphrase" />
+              <Input type="password" value={repeat} onChange={(e) => setRepeat(e.target.value)} placeholder="Repeat new passphrase" />
+            </>
+          )}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={onClose} disabled={busy}>Cancel</Button>
+            <Button type="submit" disabled={busy}>{busy ? "Working…" : submitLabel}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,59 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ItemRow } from "@/components/ItemRow";
+import { EmptyState } from "@/components/EmptyState";
+import type { ParsedQuery } from "@/lib/query";
+import type { Category, Item } from "@/lib/types";
+import type { TagInfo } from "@/lib/tags";
+import type { WorkflowOf } from "@/lib/workflow";
+
+type Props = {
+  query: ParsedQuery;
+  results: Item[];
+  categories: Category[];
+  tags: TagInfo[];
+  workflowOf: WorkflowOf;
+  onChange: (id: string, patch: Partial<Item>) => void;
+  onRemove: (id: string) => void;
+  onOpen: (id: string) => void;
+  onClear: () => void;
+};
+
+export function SearchResults({ query, results, categories, tags, workflowOf, onChange, onRemove, onOpen, onClear }: Props) {
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base">Search results ({results.length})</CardTitle>
+          <Button size="sm" variant="ghost" onClick={onClear}>Clear search</Button>
+        </div>
+        {query.errors.length > 0 && (
+          <p className="text-xs text-red-600">Ignored: {query.errors.join("; ")}</p>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-3">
+        {results.length === 0 ? (
+          <EmptyState message="Nothing matches. Try cat:finance, tag:errands, term:short, p>=3, status:blocked, created:<7d or plain words." />
+        ) : (
+          results.map((it) => (
+            <ItemRow
+              key={it.id}
+              item={it}
+              category={byId.get(it.category) ?? { id: it.category, label: it.category }}
+              tags={tags}
+              workflow={workflowOf(it.category)}
+              onChange={(patch) => onChange(it.id, patch)}
+              onRemove={() => onRemove(it.id)}
+              onOpen={() => onOpen(it.id)}
+              showTerm
+              showPriority
+              showStatus
+              showDue
+            />
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
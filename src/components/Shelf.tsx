@@ -0,0 +1,112 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Archive, ArchiveRestore, RotateCcw, Trash2, X } from "lucide-react";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { EmptyState } from "@/components/EmptyState";
+import type { Category, Item } from "@/lib/types";
+import { daysLeft, isArchived, isTrashed, itemsTrashedWith } from "@/lib/archive";
+import { fmtDate } from "@/lib/utils";
+
+export type ShelfKind = "archive" | "trash";
+
+type Props = {
+  kind: ShelfKind;
+  items: Item[]; // everything, the shelf picks its own
+  categories: Category[]; // including trashed ones
+  days: number; // retention setting for this shelf; 0 keeps entries
+  onDays: (days: number) => void;
+  onRestore: (ids: string[]) => void;
+  onDelete: (ids: string[]) => void; // archive: to the trash; trash: for good
+  onRestoreCategory: (id: string) => void;
+  onClose: () => void;
+};
+
+const RETENTION = [0, 7, 30, 90, 365];
+
+// The archive and the trash share one view: a list with restore and delete, plus retention.
+export function Shelf({ kind, items, categories, days, onDays, onRestore, onDelete, onRestoreCategory, onClose }: Props) {
+  const trash = kind === "trash";
+  const shelved = items.filter(trash ? isTrashed : isArchived).sort((a, b) => (trash ? b.deletedAt! - a.deletedAt! : b.archivedAt! - a.archivedAt!));
+  const trashedCategories = trash ? categories.filter((c) => c.deletedAt) : [];
+  const byId = new Map(categories.map((c) => [c.id, c]));
+  const all = shelved.map((i) => i.id);
+
+  const countdown = (at: number) => {
+    const left = daysLeft(at, days);
+    if (left === null) return null;
+    return trash ? `deleted for good in ${left}d` : `to trash in ${left}d`;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <CardTitle className="text-base flex items-center gap-2">
+            {trash ? <Trash2 className="size-4" /> : <Archive className="size-4" />}
+            {trash ? "Trash" : "Archive"} ({shelved.length})
+          </CardTitle>
+          <div className="flex items-center gap-2 text-sm">
+            <label className="flex items-center gap-2 text-zinc-600">
+              {trash ? "Delete for good after" : "Move to trash after"}
+              <select className="border rounded-md px-2 py-1" value={days} onChange={(e) => onDays(Number(e.target.value))}>
+                {[...new Set([...RETENTION, days])].sort((a, b) => a - b).map((d) => (
+                  <option key={d} value={d}>{d === 0 ? "never" : `${d} days`}</option>
+                ))}
+              </select>
+            </label>
+            {shelved.length > 0 && (
+              <Button size="sm" variant="outline" onClick={() => onRestore(all)}>{trash ? "Restore all" : "Unarchive all"}</Button>
+            )}
+            {trash && shelved.length > 0 && (
+              <Button
+                size="sm"
+                variant="destructive"
+                onClick={() => confirm(`Delete ${shelved.length} items for good? This can be undone only until the page is closed.`) && onDelete(all)}
+              >
+                Empty trash
+              </Button>
+            )}
+            <Button size="icon" variant="ghost" onClick={onClose} title="Close"><X className="size-4" /></Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="grid gap-2">
+        {trashedCategories.map((c) => (
+          <div key={c.id} className="flex items-center gap-2 rounded-lg border border-dashed bg-white px-3 py-2 text-sm">
+            <span className="flex-1">
+              Category <span className="font-medium">{c.label}</span>
+              <span className="text-xs text-zinc-500"> · {itemsTrashedWith(items, c).length} items · deleted {fmtDate(c.deletedAt!)}</span>
+            </span>
+            <Button size="sm" variant="ghost" onClick={() => onRestoreCategory(c.id)}><RotateCcw className="size-4 mr-1" />Restore</Button>
+          </div>
+        ))}
+        {shelved.length === 0 && trashedCategories.length === 0 ? (
+          <EmptyState message={trash ? "The trash is empty." : "Nothing archived. Finished items can be archived from Step 3."} />
+        ) : (
+          shelved.map((it) => {
+            const at = trash ? it.deletedAt! : it.archivedAt!;
+            const left = countdown(at);
+            return (
+              <div key={it.id} className="flex items-center gap-2 rounded-lg border bg-white px-3 py-2 text-sm">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate">{it.text}</p>
+                  <p className="text-xs text-zinc-500">
+                    {trash ? "Deleted" : "Archived"} {fmtDate(at)}
+                    {left && ` · ${left}`}
+                  </p>
+                </div>
+                <CategoryBadge category={byId.get(it.category)} id={it.category} />
+                <Button size="sm" variant="ghost" onClick={() => onRestore([it.id])} title={trash ? "Restore" : "Unarchive"}>
+                  {trash ? <RotateCcw className="size-4" /> : <ArchiveRestore className="size-4" />}
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => onDelete([it.id])} title={trash ? "Delete for good" : "Move to trash"}>
+                  <Trash2 className="size-4" />
+                </Button>
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
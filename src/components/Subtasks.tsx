@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronRight, X } from "lucide-react";
+import { STATUSES } from "@/lib/types";
+import type { Item, Status, Subtask } from "@/lib/types";
+import { uid } from "@/lib/utils";
+
+const progress = (subtasks: Subtask[]) => `${subtasks.filter((s) => s.status === "done").length}/${subtasks.length}`;
+
+type Props = {
+  item: Item;
+  /** Omit for a read-only list. */
+  onChange?: (patch: Partial<Item>) => void;
+};
+
+/**
+ * "3/5" toggle that expands an item's subtasks. Editable when `onChange` is
+ * given; finishing the last open subtask offers to complete the parent too.
+ */
+export function Subtasks({ item, onChange }: Props) {
+  const subtasks = item.subtasks ?? [];
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState("");
+  if (!subtasks.length && !onChange) return null;
+
+  const save = (next: Subtask[]) => {
+    const finished = next.length > 0 && next.every((s) => s.status === "done") && subtasks.some((s) => s.status !== "done");
+    const completeParent = finished && item.status !== "done" && confirm(`All subtasks are done. Mark “${item.text}” done too?`);
+    onChange?.({ subtasks: next.length ? next : undefined, ...(completeParent ? { status: "done" as const } : {}) });
+  };
+  const setStatus = (id: string, status: Status) => save(subtasks.map((s) => (s.id === id ? { ...s, status } : s)));
+  const add = () => {
+    if (!text.trim()) return;
+    save([...subtasks, { id: uid(), text: text.trim(), status: "backlog" }]);
+    setText("");
+  };
+
+  return (
+    <div className="mt-1 text-sm">
+      <button
+        type="button"
+        className="inline-flex items-center gap-1 text-xs text-zinc-600 hover:text-zinc-900"
+        aria-expanded={open}
+        onClick={() => setOpen((o) => !o)}
+      >
+        {open ? <ChevronDown className="size-3" /> : <ChevronRight className="size-3" />}
+        {subtasks.length ? <Badge variant="outline">{progress(subtasks)}</Badge> : "Add subtasks"}
+      </button>
+      {open && (
+        <ul className="mt-1 grid gap-1 pl-4">
+          {subtasks.map((s) => (
+            <li key={s.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={s.status === "done"}
+                disabled={!onChange}
+                onChange={(e) => setStatus(s.id, e.target.checked ? "done" : "backlog")}
+                aria-label={`Done: ${s.text}`}
+              />
+              <span className={`flex-1 ${s.status === "done" ? "line-through text-zinc-400" : ""}`}>{s.text}</span>
+              {onChange ? (
+                <>
+                  <select
+                    className="rounded-md border px-1 text-xs capitalize"
+                    value={s.status}
+                    onChange={(e) => setStatus(s.id, e.target.value as Status)}
+                    aria-label={`Status: ${s.text}`}
+                  >
+                    {STATUSES.map((st) => (
+                      <option key={st} value={st}>{st.replace("_", " ")}</option>
+                    ))}
+                  </select>
+                  <button type="button" title="Remove subtask" onClick={() => save(subtasks.filter((x) => x.id !== s.id))}>
+                    <X className="size-3" />
+                  </button>
+                </>
+              ) : (
+                s.status !== "done" && s.status !== "backlog" && <span className="text-xs capitalize text-zinc-500">{s.status.replace("_", " ")}</span>
+              )}
+            </li>
+          ))}
+          {onChange && (
+            <li>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  add();
+                }}
+              >
+                <Input value={text} onChange={(e) => setText(e.target.value)} placeholder="Add a subtask and hit Enter" className="h-7 text-sm" />
+              </form>
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
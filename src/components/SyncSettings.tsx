@@ -0,0 +1,80 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { RefreshCw } from "lucide-react";
+import type { SyncConfig } from "@/lib/server-sync";
+import type { SyncStatus } from "@/hooks/useServerSync";
+
+type Props = {
+  config: SyncConfig;
+  status: SyncStatus;
+  encrypted: boolean; // sync would send records unencrypted, so it's paused
+  onChange: (config: SyncConfig) => void;
+  onSyncNow: () => void;
+};
+
+const time = (ms: number) => new Date(ms).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit" });
+
+function describe(status: SyncStatus) {
+  switch (status.phase) {
+    case "off":
+      return "Off. Everything stays on this device.";
+    case "syncing":
+      return "Syncing…";
+    case "idle":
+      return status.lastSync ? `Synced at ${time(status.lastSync)}.` : "Waiting to sync.";
+    case "offline":
+      return "Server unreachable. Changes are kept here and sync once it's back.";
+    case "error":
+      return status.error ?? "Sync failed.";
+  }
+}
+
+// Server address and token are only applied on Save, so typing doesn't trigger syncs.
+export function SyncSettings({ config, status, encrypted, onChange, onSyncNow }: Props) {
+  const [url, setUrl] = useState(config.url);
+  const [token, setToken] = useState(config.token);
+  const edited = url !== config.url || token !== config.token;
+
+  return (
+    <div className="grid gap-2 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor="server-sync">Sync with a server</label>
+        <Switch
+          id="server-sync"
+          checked={config.enabled}
+          disabled={encrypted || !config.url.trim()}
+          onCheckedChange={(enabled) => onChange({ ...config, enabled })}
+        />
+      </div>
+      <Input value={url} onChange={(e) => setUrl(e.target.value)} placeholder="http://localhost:8787" className="h-8" />
+      <Input type="password" value={token} onChange={(e) => setToken(e.target.value)} placeholder="Token (optional)" className="h-8" />
+      {edited && (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => {
+            const next = url.trim();
+            setUrl(next);
+            onChange({ ...config, url: next, token, enabled: config.enabled && !!next });
+          }}
+        >
+          Save
+        </Button>
+      )}
+      <div className="flex items-center justify-between gap-2">
+        <p className={`text-xs ${status.phase === "error" ? "text-red-600" : "text-zinc-500"}`}>
+          {encrypted
+            ? `${config.enabled ? "Paused" : "Unavailable"} while stored data is encrypted: the server would receive your items unencrypted. Turning encryption off ${config.enabled ? "resumes it" : "makes it available again"}.`
+            : describe(status)}
+        </p>
+        {config.enabled && !encrypted && (
+          <Button size="icon" variant="ghost" onClick={onSyncNow} disabled={status.phase === "syncing"} title="Sync now">
+            <RefreshCw className="size-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
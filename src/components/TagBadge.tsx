@@ -0,0 +1,42 @@
+import { X } from "lucide-react";
+import type { TagColor } from "@/lib/types";
+import { COLOR_CLASSES } from "@/lib/colors";
+
+type Props = {
+  name: string;
+  color?: TagColor;
+  active?: boolean;
+  onClick?: () => void;
+  onRemove?: () => void;
+};
+
+export function TagBadge({ name, color = "gray", active, onClick, onRemove }: Props) {
+  const className = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium ${COLOR_CLASSES[color]} ${active ? "ring-2 ring-zinc-900" : ""}`;
+  const label = <>#{name}</>;
+  return (
+    <span className={className}>
+      {onClick ? (
+        <button type="button" aria-pressed={active} onClick={onClick}>{label}</button>
+      ) : (
+        label
+      )}
+      {onRemove && (
+        <button type="button" title={`Remove #${name}`} onClick={onRemove}>
+          <X className="size-3" />
+        </button>
+      )}
+    </span>
+  );
+}
+
+export function TagSwatch({ color, selected, onClick }: { color: TagColor; selected?: boolean; onClick: () => void }) {
+  return (
+    <button
+      type="button"
+      title={color}
+      aria-pressed={selected}
+      onClick={onClick}
+      className={`size-4 rounded-full border ${COLOR_CLASSES[color]} ${selected ? "ring-2 ring-zinc-900" : ""}`}
+    />
+  );
+}
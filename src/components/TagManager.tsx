@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Check, Pencil, Trash2 } from "lucide-react";
+import { TagBadge, TagSwatch } from "@/components/TagBadge";
+import { TAG_COLORS } from "@/lib/types";
+import type { TagColor } from "@/lib/types";
+import { normalizeTag } from "@/lib/tags";
+import type { TagInfo } from "@/lib/tags";
+
+type Props = {
+  tags: TagInfo[];
+  onRename: (from: string, to: string) => void;
+  onColor: (name: string, color: TagColor) => void;
+  onDelete: (name: string) => void;
+};
+
+// Renaming onto an existing tag merges the two.
+export function TagManager({ tags, onRename, onColor, onDelete }: Props) {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [name, setName] = useState("");
+
+  if (!tags.length) return <p className="text-xs text-zinc-500">No tags yet. Add them on any item.</p>;
+
+  const commit = (from: string) => {
+    const to = normalizeTag(name);
+    setEditing(null);
+    if (!to || to === from) return;
+    if (tags.some((t) => t.name === to) && !confirm(`Merge #${from} into #${to}?`)) return;
+    onRename(from, to);
+  };
+
+  return (
+    <div className="grid gap-2">
+      {tags.map((t) => (
+        <div key={t.name} className="grid gap-1 text-sm">
+          <div className="flex items-center justify-between gap-1">
+            {editing === t.name ? (
+              <form
+                className="flex flex-1 gap-1"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  commit(t.name);
+                }}
+              >
+                <Input autoFocus value={name} onChange={(e) => setName(e.target.value)} onKeyDown={(e) => e.key === "Escape" && setEditing(null)} className="h-7" />
+                <Button type="submit" size="icon" variant="ghost" title="Save"><Check className="size-4" /></Button>
+              </form>
+            ) : (
+              <>
+                <span className="flex items-center gap-1 truncate">
+                  <TagBadge name={t.name} color={t.color} />
+                  <span className="text-xs text-zinc-500">{t.count}</span>
+                </span>
+                <span className="flex">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    title="Rename or merge"
+                    onClick={() => {
+                      setEditing(t.name);
+                      setName(t.name);
+                    }}
+                  >
+                    <Pencil className="size-4" />
+                  </Button>
+                  <Button size="icon" variant="ghost" title="Delete tag" onClick={() => onDelete(t.name)}>
+                    <Trash2 className="size-4" />
+                  </Button>
+                </span>
+              </>
+            )}
+          </div>
+          <div className="flex gap-1 pl-1">
+            {TAG_COLORS.map((c) => (
+              <TagSwatch key={c} color={c} selected={t.color === c} onClick={() => onColor(t.name, c)} />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
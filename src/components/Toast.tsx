@@ -0,0 +1,38 @@
+import { useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { X } from "lucide-react";
+
+export type ToastMessage = {
+  id: number;
+  message: string;
+  action?: { label: string; run: () => void };
+};
+
+const TIMEOUT_MS = 6000;
+
+// A single bottom-right notice; a newer toast replaces the current one.
+export function Toast({ toast, onDismiss }: { toast: ToastMessage; onDismiss: () => void }) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [toast.id, onDismiss]);
+
+  return (
+    <div role="status" className="fixed bottom-4 right-4 z-50 flex items-center gap-3 rounded-xl border bg-zinc-900 px-4 py-3 text-sm text-white shadow-lg">
+      <span>{toast.message}</span>
+      {toast.action && (
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => {
+            toast.action!.run();
+            onDismiss();
+          }}
+        >
+          {toast.action.label}
+        </Button>
+      )}
+      <button onClick={onDismiss} title="Dismiss" className="opacity-70 hover:opacity-100"><X className="size-4" /></button>
+    </div>
+  );
+}
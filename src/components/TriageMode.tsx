@@ -0,0 +1,149 @@
+import { useEffect, useRef, useState } from "react";
+import type { KeyboardEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import { CategoryBadge } from "@/components/CategoryBadge";
+import { TERMS } from "@/lib/types";
+import type { Category, Item } from "@/lib/types";
+import { categoryHotkeys, needsTriage } from "@/lib/triage";
+
+type Props = {
+  items: Item[];
+  categories: Category[];
+  onChange: (id: string, patch: Partial<Item>) => void;
+  onClose: () => void;
+};
+
+type Phase = "term" | "priority";
+
+/**
+ * Full-screen, one item at a time. The queue is fixed when triage opens so
+ * items don't jump around as they're sorted; each one asks for a term, then a
+ * priority, and the next item comes up once both are set.
+ */
+export function TriageMode({ items, categories, onChange, onClose }: Props) {
+  const [queue] = useState(() => items.filter(needsTriage).map((i) => i.id));
+  const [index, setIndex] = useState(0);
+  const [phaseOverride, setPhaseOverride] = useState<Phase | null>(null);
+  const root = useRef<HTMLDivElement>(null);
+  const hotkeys = categoryHotkeys(categories);
+
+  useEffect(() => root.current?.focus(), []);
+
+  const item = items.find((i) => i.id === queue[index]);
+  const phase: Phase = phaseOverride ?? (item?.term ? "priority" : "term");
+  const finished = index >= queue.length;
+
+  const go = (to: number) => {
+    setIndex(Math.max(0, Math.min(queue.length, to)));
+    setPhaseOverride(null);
+  };
+
+  const apply = (patch: Partial<Item>) => {
+    if (!item) return;
+    onChange(item.id, patch);
+    const next = { ...item, ...patch };
+    if (!needsTriage(next)) go(index + 1);
+    else setPhaseOverride(null);
+  };
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const key = e.key.toLowerCase();
+    let handled = true;
+    if (key === "escape") onClose();
+    else if (key === "arrowright") go(index + 1);
+    else if (key === "arrowleft") go(index - 1);
+    else if (!item) handled = false;
+    else if (key === "tab") setPhaseOverride(phase === "term" ? "priority" : "term");
+    else if (phase === "term" && /^[1-3]$/.test(key)) apply({ term: TERMS[Number(key) - 1] });
+    else if (phase === "priority" && /^[0-5]$/.test(key)) apply({ priority: Number(key) });
+    else {
+      const hit = hotkeys.find((h) => h.key === key);
+      if (hit) onChange(item.id, { category: hit.category.id });
+      else handled = false;
+    }
+    if (handled) e.preventDefault();
+  };
+
+  const percent = queue.length ? Math.round((Math.min(index, queue.length) / queue.length) * 100) : 100;
+  const chip = (active: boolean) =>
+    `rounded-lg border px-3 py-2 text-sm ${active ? "bg-zinc-900 text-white border-zinc-900" : "bg-white"}`;
+
+  return (
+    <div
+      ref={root}
+      role="dialog"
+      aria-modal
+      aria-label="Triage"
+      tabIndex={-1}
+      onKeyDown={onKeyDown}
+      className="fixed inset-0 z-40 flex flex-col bg-zinc-50 p-6 outline-none"
+    >
+      <div className="mx-auto flex w-full max-w-3xl items-center gap-3">
+        <span className="text-sm text-zinc-600 tabular-nums">{Math.min(index + 1, queue.length)} / {queue.length}</span>
+        <div className="h-2 flex-1 rounded-full bg-zinc-200" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+          <div className="h-2 rounded-full bg-zinc-900 transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <Button variant="ghost" size="icon" onClick={onClose} title="Exit triage (Esc)"><X className="size-4" /></Button>
+      </div>
+
+      <div className="mx-auto grid w-full max-w-3xl flex-1 content-center gap-6">
+        {finished || !item ? (
+          <div className="text-center">
+            <p className="text-2xl font-semibold">{queue.length ? "All caught up." : "Nothing to triage."}</p>
+            <p className="mt-2 text-sm text-zinc-600">Every item has a term and a priority.</p>
+            <div className="mt-4 flex justify-center gap-2">
+              {queue.length > 0 && <Button variant="outline" onClick={() => go(index - 1)}>Back</Button>}
+              <Button onClick={onClose}>Done</Button>
+            </div>
+          </div>
+        ) : (
+          <>
+            <div>
+              <CategoryBadge category={categories.find((c) => c.id === item.category)} id={item.category} />
+              <p className="mt-3 whitespace-pre-wrap text-3xl font-semibold">{item.text}</p>
+            </div>
+
+            <section className={phase === "term" ? "" : "opacity-50"}>
+              <p className="mb-2 text-xs uppercase tracking-wide text-zinc-500">Term · keys 1–3</p>
+              <div className="flex gap-2">
+                {TERMS.map((t, i) => (
+                  <button key={t} type="button" className={chip(item.term === t)} onClick={() => apply({ term: t })}>
+                    <kbd className="mr-2 text-xs opacity-60">{i + 1}</kbd>{t}
+                  </button>
+                ))}
+              </div>
+            </section>
+
+            <section className={phase === "priority" ? "" : "opacity-50"}>
+              <p className="mb-2 text-xs uppercase tracking-wide text-zinc-500">Priority · keys 0–5</p>
+              <div className="flex gap-2">
+                {[0, 1, 2, 3, 4, 5].map((p) => (
+                  <button key={p} type="button" className={chip(item.priority === p)} onClick={() => apply({ priority: p })}>P{p}</button>
+                ))}
+              </div>
+            </section>
+
+            <section>
+              <p className="mb-2 text-xs uppercase tracking-wide text-zinc-500">Category · letter keys</p>
+              <div className="flex flex-wrap gap-2">
+                {hotkeys.map(({ key, category }) => (
+                  <button key={category.id} type="button" className={chip(item.category === category.id)} onClick={() => onChange(item.id, { category: category.id })}>
+                    <kbd className="mr-2 text-xs uppercase opacity-60">{key}</kbd>{category.label}
+                  </button>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
+      </div>
+
+      <div className="mx-auto flex w-full max-w-3xl items-center justify-between text-sm">
+        <Button variant="outline" onClick={() => go(index - 1)} disabled={index === 0}><ChevronLeft className="size-4 mr-1" />Back</Button>
+        <span className="text-xs text-zinc-500">Tab switches term/priority · ←/→ back/skip · Esc exits</span>
+        <Button variant="outline" onClick={() => go(index + 1)} disabled={finished}>Skip<ChevronRight className="size-4 ml-1" /></Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,56 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Lock } from "lucide-react";
+
+type Props = {
+  onUnlock: (passphrase: string) => Promise<void>; // rejects with "Wrong passphrase."
+  onErase: () => void;
+};
+
+// Shown instead of the app while the stored data is encrypted and locked.
+export function UnlockScreen({ onUnlock, onErase }: Props) {
+  const [passphrase, setPassphrase] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async () => {
+    if (!passphrase) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Couldn't unlock.");
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-zinc-50 text-zinc-900 grid place-items-center p-4">
+      <form
+        className="grid w-full max-w-sm gap-3 rounded-2xl border bg-white p-6 shadow-sm"
+        onSubmit={(e) => {
+          e.preventDefault();
+          submit();
+        }}
+      >
+        <div className="flex items-center gap-2">
+          <Lock className="size-5" />
+          <h1 className="text-lg font-semibold">Brain Dump is locked</h1>
+        </div>
+        <p className="text-sm text-zinc-600">Your data is encrypted. Enter the passphrase to open it.</p>
+        <Input type="password" autoFocus value={passphrase} onChange={(e) => setPassphrase(e.target.value)} placeholder="Passphrase" />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button type="submit" disabled={busy || !passphrase}>{busy ? "Unlocking…" : "Unlock"}</Button>
+        <button
+          type="button"
+          className="text-xs text-zinc-500 underline hover:text-zinc-900"
+          onClick={() => confirm("Without the passphrase the data can't be recovered. Erase it and start over?") && onErase()}
+        >
+          Forgot the passphrase?
+        </button>
+      </form>
+    </div>
+  );
+}
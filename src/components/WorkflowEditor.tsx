@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ChevronDown, ChevronUp, Plus, Trash2 } from "lucide-react";
+import { TagSwatch } from "@/components/TagBadge";
+import { STATUSES, TAG_COLORS } from "@/lib/types";
+import type { Status, WorkflowStatus } from "@/lib/types";
+import { isUsableWorkflow, newColumnId } from "@/lib/workflow";
+
+type Props = {
+  workflow: WorkflowStatus[];
+  counts: Record<string, number>; // cards per column id
+  onChange: (workflow: WorkflowStatus[]) => void;
+};
+
+const KIND_LABELS: Record<Status, string> = { backlog: "To do", in_progress: "In progress", blocked: "Blocked", done: "Done" };
+
+const selectClass = "rounded-md border bg-white px-1 py-0.5 text-xs";
+
+// Changes apply right away; cards in a removed column keep their stage and show
+// in the first column of their kind (see columnOf). A workflow always keeps at
+// least one open and one done column, so nothing is left without a place.
+export function WorkflowEditor({ workflow, counts, onChange }: Props) {
+  const [label, setLabel] = useState("");
+
+  const apply = (next: WorkflowStatus[]) => isUsableWorkflow(next) && onChange(next);
+  const update = (id: string, patch: Partial<WorkflowStatus>) => apply(workflow.map((c) => (c.id === id ? { ...c, ...patch } : c)));
+  const shift = (index: number, delta: -1 | 1) => {
+    const next = [...workflow];
+    [next[index], next[index + delta]] = [next[index + delta], next[index]];
+    apply(next);
+  };
+  const add = () => {
+    if (!label.trim()) return;
+    apply([...workflow, { id: newColumnId(workflow, label), label: label.trim(), kind: "in_progress" }]);
+    setLabel("");
+  };
+
+  return (
+    <div className="grid gap-2">
+      {workflow.map((c, index) => {
+        const removable = isUsableWorkflow(workflow.filter((o) => o.id !== c.id));
+        return (
+          <div key={c.id} className="grid gap-1 text-sm">
+            <div className="flex items-center gap-1">
+              <Input
+                key={c.label}
+                defaultValue={c.label}
+                onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== c.label && update(c.id, { label: e.target.value.trim() })}
+                onKeyDown={(e) => e.key === "Enter" && e.currentTarget.blur()}
+                className="h-7"
+                aria-label={`Name of ${c.label}`}
+              />
+              <span className="w-6 shrink-0 text-right text-xs text-zinc-500" title="Cards">{counts[c.id] ?? 0}</span>
+              <Button size="icon" variant="ghost" className="size-7" title="Earlier on the board" disabled={index === 0} onClick={() => shift(index, -1)}>
+                <ChevronUp className="size-4" />
+              </Button>
+              <Button size="icon" variant="ghost" className="size-7" title="Later on the board" disabled={index === workflow.length - 1} onClick={() => shift(index, 1)}>
+                <ChevronDown className="size-4" />
+              </Button>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="size-7"
+                disabled={!removable}
+                title={removable ? "Remove column" : "Keep at least one open and one done column"}
+                onClick={() => (!counts[c.id] || confirm(`Remove “${c.label}”? Its ${counts[c.id]} cards show in another column.`)) && apply(workflow.filter((o) => o.id !== c.id))}
+              >
+                <Trash2 className="size-4" />
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-center gap-1 pl-1">
+              <select className={selectClass} value={c.kind} onChange={(e) => update(c.id, { kind: e.target.value as Status })} aria-label={`Kind of ${c.label}`}>
+                {STATUSES.map((kind) => (
+                  <option key={kind} value={kind} disabled={!isUsableWorkflow(workflow.map((o) => (o.id === c.id ? { ...o, kind } : o)))}>
+                    Counts as {KIND_LABELS[kind].toLowerCase()}
+                  </option>
+                ))}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-zinc-600">
+                WIP
+                <input
+                  type="number"
+                  min={1}
+                  className="w-12 rounded-md border px-1 py-0.5 text-xs"
+                  value={c.wip ?? ""}
+                  placeholder="–"
+                  onChange={(e) => {
+                    const wip = Number(e.target.value);
+                    update(c.id, { wip: Number.isInteger(wip) && wip > 0 ? wip : undefined });
+                  }}
+                />
+              </label>
+              {TAG_COLORS.map((color) => (
+                <TagSwatch key={color} color={color} selected={(c.color ?? "gray") === color} onClick={() => update(c.id, { color: color === "gray" ? undefined : color })} />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          add();
+        }}
+      >
+        <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Add column" className="h-7" />
+        <Button type="submit" size="icon" variant="ghost" className="size-7" title="Add column"><Plus className="size-4" /></Button>
+      </form>
+    </div>
+  );
+}
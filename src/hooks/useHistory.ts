@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Category, Item } from "@/lib/types";
+
+// ---- Undo/Redo ----
+// App state is immutable, so a history entry is just the previous items and
+// categories arrays; unchanged items are shared between entries.
+export type Snapshot = { items: Item[]; categories: Category[] };
+
+type Entry = { label: string; snapshot: Snapshot; key?: string; at: number };
+
+const LIMIT = 100;
+const COALESCE_MS = 1500;
+
+export function useHistory(current: Snapshot, restore: (s: Snapshot) => void) {
+  const latest = useRef(current);
+  const past = useRef<Entry[]>([]);
+  const future = useRef<Entry[]>([]);
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion((v) => v + 1);
+
+  useEffect(() => {
+    latest.current = current;
+  }, [current]);
+
+  /**
+   * Call before a mutation. Consecutive calls with the same `key` (e.g. one
+   * item's priority while its slider is dragged) collapse into one entry.
+   */
+  const record = useCallback((label: string, key?: string) => {
+    const now = Date.now();
+    const last = past.current[past.current.length - 1];
+    future.current = [];
+    if (key && last?.key === key && now - last.at < COALESCE_MS) {
+      last.at = now;
+    } else {
+      past.current = [...past.current, { label, snapshot: latest.current, key, at: now }].slice(-LIMIT);
+    }
+    bump();
+  }, []);
+
+  const step = useCallback(
+    (from: typeof past, to: typeof past): string | null => {
+      const entry = from.current[from.current.length - 1];
+      if (!entry) return null;
+      from.current = from.current.slice(0, -1);
+      to.current = [...to.current, { label: entry.label, snapshot: latest.current, at: Date.now() }];
+      restore(entry.snapshot);
+      bump();
+      return entry.label;
+    },
+    [restore]
+  );
+
+  const undo = useCallback(() => step(past, future), [step]);
+  const redo = useCallback(() => step(future, past), [step]);
+
+  /**
+   * Forgets every entry. For changes merged in from elsewhere: restoring a
+   * snapshot from before them would silently drop them.
+   */
+  const clear = useCallback(() => {
+    past.current = [];
+    future.current = [];
+    bump();
+  }, []);
+
+  return {
+    record,
+    undo,
+    redo,
+    clear,
+    canUndo: past.current.length > 0,
+    canRedo: future.current.length > 0,
+    nextUndo: past.current[past.current.length - 1]?.label,
+  };
+}
@@ -0,0 +1,32 @@
+import { useEffect } from "react";
+
+const ACTIVITY = ["pointerdown", "keydown", "wheel", "touchstart"] as const;
+
+// ---- Auto-lock ----
+// Calls `lock` after `minutes` without input while `active`. Time spent in a
+// hidden tab counts too: coming back after the limit locks right away.
+export function useIdleLock(active: boolean, minutes: number, lock: () => void) {
+  useEffect(() => {
+    if (!active) return;
+    const limit = minutes * 60_000;
+    let last = Date.now();
+    let timer = setTimeout(lock, limit);
+
+    const touch = () => {
+      last = Date.now();
+      clearTimeout(timer);
+      timer = setTimeout(lock, limit);
+    };
+    const onVisible = () => {
+      if (document.visibilityState === "visible" && Date.now() - last >= limit) lock();
+    };
+
+    ACTIVITY.forEach((e) => window.addEventListener(e, touch, { passive: true }));
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY.forEach((e) => window.removeEventListener(e, touch));
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [active, minutes, lock]);
+}
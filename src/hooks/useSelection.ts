@@ -0,0 +1,38 @@
+import { useCallback, useRef, useState } from "react";
+
+// ---- Multi-select ----
+// `ids` is the visible list in display order, which shift-click ranges follow.
+// Ids that scroll out of view (another category, a filter) stay remembered but
+// aren't reported as selected until they're visible again.
+export function useSelection(ids: string[]) {
+  const [picked, setPicked] = useState<Set<string>>(() => new Set());
+  const anchor = useRef<string | null>(null);
+
+  const selected = ids.filter((id) => picked.has(id));
+
+  const toggle = (id: string, range = false) => {
+    const from = anchor.current ? ids.indexOf(anchor.current) : -1;
+    const to = ids.indexOf(id);
+    setPicked((prev) => {
+      const next = new Set(prev);
+      if (range && from !== -1 && to !== -1) {
+        ids.slice(Math.min(from, to), Math.max(from, to) + 1).forEach((x) => next.add(x));
+      } else if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+    anchor.current = id;
+  };
+
+  const selectAll = () => setPicked((prev) => new Set([...prev, ...ids]));
+
+  const clear = useCallback(() => {
+    setPicked(new Set());
+    anchor.current = null;
+  }, []);
+
+  return { selected, isSelected: (id: string) => picked.has(id), toggle, selectAll, clear };
+}
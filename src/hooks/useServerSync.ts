@@ -0,0 +1,125 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import type { Category, Item } from "@/lib/types";
+import {
+  applyPulled,
+  applyPushResult,
+  createTransport,
+  emptyMeta,
+  loadSyncState,
+  mergeCategoryRecords,
+  mergeItemRecords,
+  pendingChanges,
+  saveSyncState,
+} from "@/lib/server-sync";
+import type { SyncConfig } from "@/lib/server-sync";
+
+export type SyncStatus = {
+  phase: "off" | "idle" | "syncing" | "offline" | "error";
+  lastSync?: number;
+  error?: string;
+};
+
+const INTERVAL_MS = 30_000;
+const DEBOUNCE_MS = 2_000;
+
+// ---- Server Sync ----
+// Pushes unsynced records, then pulls everything newer than the last pull.
+// Runs shortly after local changes, every 30s, and when the device comes back
+// online. A failed run changes nothing locally; the next one retries.
+// Records travel in plaintext, so sync pauses while stored data is encrypted;
+// its settings are kept and it resumes once encryption is turned off.
+export function useServerSync(
+  items: Item[],
+  categories: Category[],
+  loaded: boolean,
+  encrypted: boolean,
+  setItems: Dispatch<SetStateAction<Item[]>>,
+  setCategories: Dispatch<SetStateAction<Category[]>>,
+  onMerge: () => void // pulled changes were merged in
+) {
+  const [config, setConfig] = useState(() => loadSyncState().config);
+  const [status, setStatus] = useState<SyncStatus>({ phase: "off" });
+  // Updated right away by merges too, so a run never pushes against a state it already replaced.
+  const latest = useRef({ items, categories });
+  const running = useRef(false);
+  const again = useRef(false);
+
+  useEffect(() => {
+    latest.current = { items, categories };
+  }, [items, categories]);
+
+  const run = useCallback(async () => {
+    if (encrypted || !config.enabled || !config.url.trim()) return;
+    if (running.current) {
+      again.current = true;
+      return;
+    }
+    running.current = true;
+    setStatus((s) => ({ ...s, phase: "syncing" }));
+    const transport = createTransport(config);
+    try {
+      do {
+        again.current = false;
+        // Re-read each time: another tab may have synced in the meantime.
+        let { meta } = loadSyncState();
+        const local = latest.current;
+        const changes = pendingChanges(local.items, local.categories, meta);
+        if (changes.length) meta = applyPushResult(meta, changes, await transport.push(changes));
+        const pulled = await transport.pull(meta.cursor);
+        const before = meta;
+        meta = applyPulled(meta, pulled);
+        saveSyncState({ config, meta });
+        if (!pulled.records.length) continue;
+
+        const base = latest.current;
+        const merged = {
+          items: mergeItemRecords(base.items, pulled.records, before).items,
+          categories: mergeCategoryRecords(base.categories, pulled.records, before),
+        };
+        latest.current = merged;
+        if (merged.items !== base.items || merged.categories !== base.categories) onMerge();
+        setItems((prev) => (prev === base.items ? merged.items : mergeItemRecords(prev, pulled.records, before).items));
+        setCategories((prev) => (prev === base.categories ? merged.categories : mergeCategoryRecords(prev, pulled.records, before)));
+      } while (again.current);
+      setStatus({ phase: "idle", lastSync: Date.now() });
+    } catch (e) {
+      // fetch rejects with a TypeError when the server can't be reached at all.
+      setStatus((s) => ({ ...s, phase: e instanceof TypeError ? "offline" : "error", error: e instanceof Error ? e.message : String(e) }));
+    } finally {
+      running.current = false;
+    }
+  }, [config, encrypted, setItems, setCategories, onMerge]);
+
+  useEffect(() => {
+    if (!loaded || !config.enabled || encrypted) {
+      setStatus({ phase: "off" });
+      return;
+    }
+    run();
+    const timer = setInterval(run, INTERVAL_MS);
+    const onVisible = () => document.visibilityState === "visible" && run();
+    window.addEventListener("online", run);
+    document.addEventListener("visibilitychange", onVisible);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener("online", run);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, [loaded, config, encrypted, run]);
+
+  useEffect(() => {
+    if (!loaded) return;
+    const timer = setTimeout(run, DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [loaded, items, categories, run]);
+
+  // A different server starts from scratch: everything local is pushed and merged with what it has.
+  const configure = (next: SyncConfig) => {
+    const { config: prev, meta } = loadSyncState();
+    saveSyncState({ config: next, meta: next.url.trim() === prev.url.trim() ? meta : emptyMeta() });
+    setConfig(next);
+  };
+
+  return { config, status, configure, syncNow: run };
+}
@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+
+// ---- Offline / Updates ----
+// Registers the service worker in production builds. A new version installs
+// in the background and waits; `update` is set once one is ready, and calling
+// it switches over and reloads. Checks again whenever the tab comes back.
+export function useServiceWorker() {
+  const [update, setUpdate] = useState<(() => void) | null>(null);
+
+  useEffect(() => {
+    if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+    let registration: ServiceWorkerRegistration | null = null;
+
+    const offer = (worker: ServiceWorker) =>
+      setUpdate(() => () => {
+        navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+        worker.postMessage({ type: "SKIP_WAITING" });
+      });
+
+    const check = () => {
+      if (document.visibilityState === "visible") registration?.update().catch(() => {});
+    };
+
+    navigator.serviceWorker
+      .register("/sw.js")
+      .then((reg) => {
+        registration = reg;
+        // Only an update if a version is already in control; the first install just caches.
+        if (reg.waiting && navigator.serviceWorker.controller) offer(reg.waiting);
+        reg.addEventListener("updatefound", () => {
+          const worker = reg.installing;
+          worker?.addEventListener("statechange", () => {
+            if (worker.state === "installed" && navigator.serviceWorker.controller) offer(worker);
+          });
+        });
+      })
+      .catch(() => {});
+
+    document.addEventListener("visibilitychange", check);
+    return () => document.removeEventListener("visibilitychange", check);
+  }, []);
+
+  return update;
+}
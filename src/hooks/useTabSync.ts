@@ -0,0 +1,101 @@
+import { useEffect, useRef } from "react";
+import type { Dispatch, SetStateAction } from "react";
+import type { Category, Item, Settings } from "@/lib/types";
+import { mergeCategories, mergeRemote, mergeSettings, openTabChannel, sameSharedSettings } from "@/lib/sync";
+import type { TabChange } from "@/lib/sync";
+
+const sameItems = (a: Item[], b: Item[]) => a.length === b.length && a.every((item, i) => item === b[i]);
+
+// ---- Cross-tab Sync ----
+// Broadcasts local item, category and settings changes to other open tabs
+// and merges theirs in.
+// Merging happens inside the state updaters so it always sees the latest
+// items, including edits this tab hasn't broadcast yet; the new common base
+// is parked in `pending` until the next effect picks it up. An updater called
+// twice with the same input (StrictMode does this) returns its first result.
+// When a merge changes anything here, undo history from before it is
+// dropped through `onMerge`.
+export function useTabSync(
+  items: Item[],
+  categories: Category[],
+  settings: Settings,
+  loaded: boolean,
+  setItems: Dispatch<SetStateAction<Item[]>>,
+  setCategories: Dispatch<SetStateAction<Category[]>>,
+  applySettings: (settings: Settings) => void,
+  onMerge: () => void
+) {
+  const synced = useRef<Map<string, Item> | null>(null);
+  const syncedCategories = useRef<Category[]>([]);
+  const syncedSettings = useRef(settings);
+  const latestSettings = useRef(settings);
+  const pending = useRef<{ items?: Map<string, Item>; categories?: Category[]; settings?: Settings; merged?: boolean }>({});
+  const channel = useRef<ReturnType<typeof openTabChannel> | null>(null);
+  const lastMerge = useRef<{ prev: Item[]; change: TabChange; result: Item[] } | null>(null);
+
+  useEffect(() => {
+    const onChange = (change: TabChange) => {
+      if (!synced.current) return;
+      setItems((prev) => {
+        const last = lastMerge.current;
+        if (last?.prev === prev && last.change === change) return last.result;
+        const base = new Map(pending.current.items ?? synced.current);
+        const { items: merged } = mergeRemote(prev, base, change);
+        const result = sameItems(prev, merged) ? prev : merged;
+        pending.current.items = base;
+        if (result !== prev) pending.current.merged = true;
+        lastMerge.current = { prev, change, result };
+        return result;
+      });
+      const remote = change.categories;
+      if (remote) {
+        // A merge that differs from `remote` is broadcast back, so both tabs converge.
+        setCategories((prev) => {
+          const merged = mergeCategories(prev, syncedCategories.current, remote);
+          if (JSON.stringify(merged) === JSON.stringify(prev)) return prev;
+          pending.current.merged = true;
+          return merged;
+        });
+        pending.current.categories = remote;
+      }
+      if (change.settings) {
+        // Settings aren't undoable, so they're applied without touching history.
+        const merged = mergeSettings(latestSettings.current, syncedSettings.current, change.settings);
+        if (!sameSharedSettings(merged, latestSettings.current)) applySettings(merged);
+        pending.current.settings = change.settings;
+      }
+    };
+    channel.current = openTabChannel(onChange);
+    return () => channel.current?.close();
+  }, [setItems, setCategories, applySettings]);
+
+  useEffect(() => {
+    latestSettings.current = settings;
+    if (!loaded) return;
+    if (!synced.current) {
+      synced.current = new Map(items.map((i) => [i.id, i]));
+      syncedCategories.current = categories;
+      syncedSettings.current = settings;
+      return;
+    }
+    if (pending.current.items) synced.current = pending.current.items;
+    if (pending.current.categories) syncedCategories.current = pending.current.categories;
+    if (pending.current.settings) syncedSettings.current = pending.current.settings;
+    if (pending.current.merged) onMerge();
+    pending.current = {};
+
+    const base = synced.current;
+    const ids = new Set(items.map((i) => i.id));
+    const put = items.filter((i) => base.get(i.id) !== i);
+    const remove = [...base.keys()].filter((id) => !ids.has(id));
+    const categoriesChanged = categories !== syncedCategories.current;
+    const settingsChanged = !sameSharedSettings(settings, syncedSettings.current);
+    if (!put.length && !remove.length && !categoriesChanged && !settingsChanged) return;
+
+    put.forEach((i) => base.set(i.id, i));
+    remove.forEach((id) => base.delete(id));
+    syncedCategories.current = categories;
+    syncedSettings.current = settings;
+    channel.current?.post({ put, remove, categories: categoriesChanged ? categories : undefined, settings: settingsChanged ? settings : undefined });
+  }, [loaded, items, categories, settings, onMerge]);
+}
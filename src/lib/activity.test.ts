@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { computeFlow, withActivity } from "@/lib/activity";
+import { makeItem } from "@/test/fixtures";
+
+const HOUR = 3_600_000;
+
+describe("withActivity", () => {
+  it("records a move between columns of the same kind", () => {
+    const prev = makeItem("a", { status: "in_progress", stage: "doing" });
+    const next = withActivity(prev, { ...prev, stage: "review" }, HOUR);
+    expect(next.activity).toEqual([{ at: HOUR, field: "stage", from: "doing", to: "review" }]);
+  });
+
+  it("records status and column together for a move to another kind", () => {
+    const prev = makeItem("a", { status: "in_progress", stage: "doing" });
+    const next = withActivity(prev, { ...prev, status: "done", stage: "done" }, HOUR);
+    expect(next.activity).toEqual([
+      { at: HOUR, field: "status", from: "in_progress", to: "done" },
+      { at: HOUR, field: "stage", from: "doing", to: "done" },
+    ]);
+  });
+
+  it("folds quick successive moves into one entry per field", () => {
+    const prev = makeItem("a", { status: "backlog" });
+    const moved = withActivity(prev, { ...prev, status: "in_progress", stage: "doing" }, HOUR);
+    const again = withActivity(moved, { ...moved, status: "blocked", stage: "waiting" }, HOUR + 1000);
+    expect(again.activity).toEqual([
+      { at: HOUR + 1000, field: "status", from: "backlog", to: "blocked" },
+      { at: HOUR + 1000, field: "stage", to: "waiting" },
+    ]);
+    const back = withActivity(again, { ...again, status: "backlog", stage: undefined }, HOUR + 2000);
+    expect(back.activity).toBeUndefined();
+  });
+});
+
+describe("computeFlow", () => {
+  it("goes by status changes, with column moves in between", () => {
+    const home: Category = { id: "home", label: "Home" };
+    let item = makeItem("a", { status: "backlog" });
+    const move = (at: number, status: typeof item.status, stage: string) => {
+      item = withActivity(item, { ...item, status, stage }, at);
+    };
+    move(1 * HOUR, "in_progress", "doing");
+    move(2 * HOUR, "in_progress", "review");
+    move(3 * HOUR, "blocked", "waiting");
+    move(5 * HOUR, "in_progress", "review");
+    move(6 * HOUR, "done", "done");
+    expect(computeFlow([item], [home], 10 * HOUR)).toEqual([
+      { category: home, finished: 1, lead: 6 * HOUR, cycle: 5 * HOUR, blocked: 2 * HOUR, blockedItems: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { ACTIVITY_FIELDS } from "@/lib/types";
+import type { Activity, ActivityField, Category, Item, Status } from "@/lib/types";
+
+// ---- Activity ----
+// Every edit that goes through `updateItems` appends an entry per changed field
+// (status, board column, term, priority, category) to the item itself, so the
+// history travels with it through undo, export and sync. Quick successive
+// changes to the same field (dragging the priority slider, correcting a pick)
+// fold into one entry, also when an edit logged several fields at once.
+const COALESCE_MS = 10_000;
+const MAX_ENTRIES = 200;
+
+const valueOf = (item: Item, field: ActivityField) => item[field];
+
+/** `next` with entries for the tracked fields that differ from `prev`. */
+export function withActivity(prev: Item, next: Item, now = Date.now()): Item {
+  const changed = ACTIVITY_FIELDS.filter((f) => valueOf(prev, f) !== valueOf(next, f));
+  if (!changed.length) return next;
+  const log = [...(prev.activity ?? [])];
+  changed.forEach((field) => {
+    const entry: Activity = { at: now, field, from: valueOf(prev, field), to: valueOf(next, field) };
+    const index = log.map((a) => a.field).lastIndexOf(field);
+    const last = log[index];
+    if (last && now - last.at < COALESCE_MS && log.slice(index).every((a) => a.at === last.at || a.at === now)) {
+      log.splice(index, 1);
+      entry.from = last.from;
+    }
+    if (entry.from !== entry.to) log.push(entry);
+  });
+  return { ...next, activity: log.length ? log.slice(-MAX_ENTRIES) : undefined };
+}
+
+/**
+ * Time spent in each status, from creation to `now`. Unset status counts as
+ * backlog. Without any recorded status change (items older than the history)
+ * the spans are unknown, so there are none.
+ */
+function statusSpans(item: Item, now: number) {
+  const changes = (item.activity ?? []).filter((a) => a.field === "status");
+  const spans: { status: Status; from: number; to: number }[] = [];
+  if (!changes.length) return spans;
+  let status = (changes[0].from ?? "backlog") as Status;
+  let since = item.createdAt;
+  changes.forEach((a) => {
+    spans.push({ status, from: since, to: a.at });
+    status = (a.to ?? "backlog") as Status;
+    since = a.at;
+  });
+  spans.push({ status, from: since, to: now });
+  return spans;
+}
+
+export type ItemFlow = {
+  lead?: number; // created → finished
+  cycle?: number; // first started → finished
+  blocked: number; // total time in blocked, still counting if it is
+};
+
+/**
+ * Lead and cycle time are only known for items that are done and whose move
+ * to done was recorded; items finished before history existed are skipped.
+ */
+export function itemFlow(item: Item, now = Date.now()): ItemFlow {
+  const changes = (item.activity ?? []).filter((a) => a.field === "status");
+  const blocked = statusSpans(item, now)
+    .filter((s) => s.status === "blocked")
+    .reduce((sum, s) => sum + (s.to - s.from), 0);
+  const finished = item.status === "done" ? [...changes].reverse().find((a) => a.to === "done")?.at : undefined;
+  if (finished === undefined) return { blocked };
+  const started = changes.find((a) => a.to === "in_progress")?.at;
+  return { lead: finished - item.createdAt, cycle: started !== undefined && started <= finished ? finished - started : undefined, blocked };
+}
+
+export type CategoryFlow = {
+  category: Category;
+  finished: number; // done items with a recorded finish
+  lead?: number; // median
+  cycle?: number; // median
+  blocked: number; // total across the category's items
+  blockedItems: number;
+};
+
+const median = (values: number[]) => {
+  if (!values.length) return undefined;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+export function computeFlow(items: Item[], categories: Category[], now = Date.now()): CategoryFlow[] {
+  return categories.map((category) => {
+    const flows = items.filter((i) => i.category === category.id).map((i) => itemFlow(i, now));
+    const leads = flows.flatMap((f) => (f.lead === undefined ? [] : [f.lead]));
+    const cycles = flows.flatMap((f) => (f.cycle === undefined ? [] : [f.cycle]));
+    return {
+      category,
+      finished: leads.length,
+      lead: median(leads),
+      cycle: median(cycles),
+      blocked: flows.reduce((sum, f) => sum + f.blocked, 0),
+      blockedItems: flows.filter((f) => f.blocked > 0).length,
+    };
+  });
+}
+
+/** "3d 4h", "5h 12m", "8m"; durations under a minute read "<1m". */
+export function fmtDuration(ms: number) {
+  const minutes = Math.floor(ms / 60_000);
+  if (minutes < 1) return "<1m";
+  const days = Math.floor(minutes / 1440);
+  const hours = Math.floor((minutes % 1440) / 60);
+  if (days) return hours ? `${days}d ${hours}h` : `${days}d`;
+  const rest = minutes % 60;
+  if (hours) return rest ? `${hours}h ${rest}m` : `${hours}h`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { DAY_MS, daysLeft, purgeExpired } from "@/lib/archive";
+import { makeItem } from "@/test/fixtures";
+
+const NOW = 100 * DAY_MS;
+const home: Category = { id: "home", label: "Home" };
+
+describe("purgeExpired", () => {
+  it("removes trash entries once they reach the retention age, not before", () => {
+    const due = makeItem("due", { deletedAt: NOW - 30 * DAY_MS });
+    const early = makeItem("early", { deletedAt: NOW - 30 * DAY_MS + 1 });
+    expect(purgeExpired([due, early], [home], 30, 0, NOW).items).toEqual([early]);
+  });
+
+  it("moves archived items to the trash after archiveDays", () => {
+    const old = makeItem("old", { archivedAt: NOW - 7 * DAY_MS });
+    const recent = makeItem("recent", { archivedAt: NOW - 7 * DAY_MS + 1 });
+    const { items } = purgeExpired([old, recent], [home], 30, 7, NOW);
+    expect(items).toEqual([{ ...old, deletedAt: NOW, updatedAt: NOW }, recent]);
+  });
+
+  it("keeps everything when retention is 0", () => {
+    const items = [makeItem("a", { deletedAt: 0 }), makeItem("b", { archivedAt: 1 })];
+    const categories = [{ ...home, deletedAt: 1 }];
+    const res = purgeExpired(items, categories, 0, 0, NOW);
+    expect(res.items).toBe(items);
+    expect(res.categories).toBe(categories);
+  });
+
+  it("returns the same arrays when nothing is due", () => {
+    const items = [makeItem("a"), makeItem("b", { deletedAt: NOW - DAY_MS })];
+    const categories = [home];
+    const res = purgeExpired(items, categories, 30, 7, NOW);
+    expect(res.items).toBe(items);
+    expect(res.categories).toBe(categories);
+  });
+
+  it("keeps an expired trashed category while its items are still around", () => {
+    const trashed = (id: string): Category => ({ id, label: id, deletedAt: NOW - 40 * DAY_MS });
+    const items = [makeItem("a", { category: "kept", deletedAt: NOW - DAY_MS })];
+    const res = purgeExpired(items, [trashed("kept"), trashed("empty")], 30, 0, NOW);
+    expect(res.categories.map((c) => c.id)).toEqual(["kept"]);
+  });
+});
+
+describe("daysLeft", () => {
+  it("rounds up to whole days and stops at 0", () => {
+    expect(daysLeft(NOW - DAY_MS - 1, 30, NOW)).toBe(29);
+    expect(daysLeft(NOW - 31 * DAY_MS, 30, NOW)).toBe(0);
+    expect(daysLeft(NOW, 0, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,64 @@
+import type { Category, Item } from "@/lib/types";
+
+// ---- Archive & Trash ----
+// Nothing is hard-deleted by the everyday actions. Archived items are put away
+// (typically finished ones); trashed items and categories are deleted but can
+// be restored. Both are kept in the normal lists, marked with a timestamp, so
+// undo, tab sync and server sync handle them like any other edit. Only
+// emptying the trash or its auto-purge removes anything for good.
+export const DAY_MS = 86_400_000;
+
+export const isLive = (i: Item) => !i.archivedAt && !i.deletedAt;
+export const isArchived = (i: Item) => !!i.archivedAt && !i.deletedAt;
+export const isTrashed = (i: Item) => !!i.deletedAt;
+
+export const liveCategories = (categories: Category[]) => categories.filter((c) => !c.deletedAt);
+
+/** Days left before an entry stamped at `at` is purged, or null if it's kept. */
+export const daysLeft = (at: number, days: number, now = Date.now()) =>
+  days > 0 ? Math.max(0, Math.ceil((at + days * DAY_MS - now) / DAY_MS)) : null;
+
+/**
+ * Patches that bring items out of the trash. An item whose category is in the
+ * trash too brings the category back with it (see `restoredCategories`).
+ */
+export function restorePatches(items: Item[], ids: Set<string>): Record<string, Partial<Item>> {
+  return Object.fromEntries(items.filter((i) => ids.has(i.id)).map((i) => [i.id, { deletedAt: undefined }]));
+}
+
+export function restoredCategories(categories: Category[], items: Item[], ids: Set<string>): Category[] {
+  const needed = new Set(items.filter((i) => ids.has(i.id)).map((i) => i.category));
+  return categories.map((c) => (c.deletedAt && needed.has(c.id) ? { ...c, deletedAt: undefined } : c));
+}
+
+/** Restoring a category also restores the items that went to the trash with it. */
+export const itemsTrashedWith = (items: Item[], category: Category) =>
+  items.filter((i) => i.category === category.id && i.deletedAt === category.deletedAt);
+
+/**
+ * Applies the retention settings: archived items past `archiveDays` move to the
+ * trash, and trash entries past `trashDays` are removed for good. Returns the
+ * same arrays when nothing is due, so callers can skip the update.
+ */
+export function purgeExpired(items: Item[], categories: Category[], trashDays: number, archiveDays: number, now = Date.now()) {
+  const expired = (at: number | undefined, days: number) => !!at && days > 0 && at + days * DAY_MS <= now;
+  let changed = false;
+  const nextItems: Item[] = [];
+  items.forEach((i) => {
+    if (expired(i.deletedAt, trashDays)) {
+      changed = true;
+    } else if (!i.deletedAt && expired(i.archivedAt, archiveDays)) {
+      changed = true;
+      nextItems.push({ ...i, deletedAt: now, updatedAt: now });
+    } else {
+      nextItems.push(i);
+    }
+  });
+  // A trashed category stays while any of its items are still around to be restored.
+  const used = new Set(nextItems.map((i) => i.category));
+  const nextCategories = categories.filter((c) => !expired(c.deletedAt, trashDays) || used.has(c.id));
+  return {
+    items: changed ? nextItems : items,
+    categories: nextCategories.length !== categories.length ? nextCategories : categories,
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { parseCapture } from "@/lib/capture";
+
+const TODAY = "2026-10-19"; // a Monday
+const categories: Category[] = [
+  { id: "finance", label: "Finance" },
+  { id: "health", label: "Health" },
+  { id: "home-office", label: "Home office" },
+  { id: "home-garden", label: "Home garden" },
+];
+
+describe("parseCapture", () => {
+  it("takes every token out of the text", () => {
+    expect(parseCapture("Pay rent #fin !4 ~s @wip due:fri", categories, TODAY)).toEqual({
+      text: "Pay rent",
+      fields: { category: "finance", priority: 4, term: "short", status: "in_progress", due: "2026-10-23" },
+      errors: [],
+    });
+  });
+
+  it("matches categories by label and by unambiguous prefix", () => {
+    expect(parseCapture("Desk #home-office", categories, TODAY).fields).toEqual({ category: "home-office" });
+    expect(parseCapture("Desk #Health", categories, TODAY).fields).toEqual({ category: "health" });
+    expect(parseCapture("Desk #home", categories, TODAY)).toEqual({
+      text: "Desk #home",
+      fields: {},
+      errors: ["#home matches several categories"],
+    });
+  });
+
+  it("keeps tokens it can't read in the text and reports them", () => {
+    const res = parseCapture("Call !9 ~huge @later #gym due:someday", categories, TODAY);
+    expect(res.text).toBe("Call !9 ~huge @later #gym due:someday");
+    expect(res.fields).toEqual({});
+    expect(res.errors).toEqual([
+      "priority 9 is out of range (0–5)",
+      'unknown term "huge"',
+      'unknown status "later"',
+      "no category matches #gym",
+      `can't read "due:someday", try due:fri or due:2025-03-01`,
+    ]);
+  });
+
+  it("leaves plain words that only look like tokens alone", () => {
+    expect(parseCapture("Ticket #1 in ~5min, email a@b", categories, TODAY)).toEqual({
+      text: "Ticket #1 in ~5min, email a@b",
+      fields: {},
+      errors: [],
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { STATUSES, TERMS } from "@/lib/types";
+import type { Category, Item, Status } from "@/lib/types";
+import { parseDueWord, todayKey } from "@/lib/due";
+import { slugify } from "@/lib/utils";
+
+// ---- Capture Syntax ----
+// Inline tokens typed while capturing, removed from the stored text:
+//   #finance       category, by id or label (prefix is enough when unambiguous)
+//   !3             priority 0–5
+//   ~short         term (~s, ~m, ~l also work)
+//   @blocked       status (@in-progress or @wip for in_progress)
+//   due:fri        due date: today, tomorrow, weekday, +3d, +2w or YYYY-MM-DD
+// A token that can't be read stays in the text and is reported, so nothing
+// typed is silently lost.
+export type CaptureFields = Partial<Pick<Item, "category" | "term" | "priority" | "status" | "due">>;
+
+export type ParsedCapture = { text: string; fields: CaptureFields; errors: string[] };
+
+const STATUS_ALIASES: Record<string, Status> = { wip: "in_progress", doing: "in_progress", todo: "backlog" };
+
+function findCategory(name: string, categories: Category[]): Category | string {
+  const key = slugify(name);
+  const exact = categories.find((c) => c.id === key || slugify(c.label) === key);
+  if (exact) return exact;
+  const partial = categories.filter((c) => c.id.startsWith(key) || slugify(c.label).startsWith(key));
+  if (partial.length === 1) return partial[0];
+  return partial.length ? `#${name} matches several categories` : `no category matches #${name}`;
+}
+
+function parseToken(token: string, categories: Category[], today: string): CaptureFields | string | null {
+  const sigil = token[0];
+  const value = token.slice(1).toLowerCase();
+  const word = /^[a-z][\w-]*$/.test(value); // so "#1" or "~5min" stay plain text
+  if (sigil === "#" && word) {
+    const cat = findCategory(value, categories);
+    return typeof cat === "string" ? cat : { category: cat.id };
+  }
+  if (sigil === "!" && /^\d+$/.test(value)) {
+    const priority = Number(value);
+    return priority <= 5 ? { priority } : `priority ${priority} is out of range (0–5)`;
+  }
+  if (sigil === "~" && word) {
+    const term = TERMS.find((t) => t === value || t[0] === value);
+    return term ? { term } : `unknown term "${value}"`;
+  }
+  if (sigil === "@" && word) {
+    const status = STATUS_ALIASES[value] ?? value.replace(/-/g, "_");
+    return STATUSES.includes(status as Status) ? { status: status as Status } : `unknown status "${value}"`;
+  }
+  const due = /^due:(.+)$/i.exec(token);
+  if (due) {
+    const date = parseDueWord(due[1], today);
+    return date ? { due: date } : `can't read "due:${due[1]}", try due:fri or due:2025-03-01`;
+  }
+  return null;
+}
+
+export function parseCapture(input: string, categories: Category[], today = todayKey()): ParsedCapture {
+  const fields: CaptureFields = {};
+  const errors: string[] = [];
+  const words = input.trim().split(/\s+/).filter((word) => {
+    const res = parseToken(word, categories, today);
+    if (res === null) return true;
+    if (typeof res === "string") {
+      errors.push(res);
+      return true;
+    }
+    Object.assign(fields, res);
+    return false;
+  });
+  return { text: words.join(" "), fields, errors };
+}
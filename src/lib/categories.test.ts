@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { categoryTree, moveCategory, rolledUpCounts } from "@/lib/categories";
+
+const categories: Category[] = [
+  { id: "work", label: "Work" },
+  { id: "clients", label: "Clients", parent: "work" },
+  { id: "acme", label: "Acme", parent: "clients" },
+  { id: "home", label: "Home" },
+];
+const ids = (list: Category[]) => list.map((c) => (c.parent ? `${c.parent}/${c.id}` : c.id));
+
+describe("moveCategory", () => {
+  it("moves a category in front of another or to the end", () => {
+    expect(ids(moveCategory(categories, "home", "work"))).toEqual(["home", "work", "work/clients", "clients/acme"]);
+    expect(ids(moveCategory(categories, "work", null))).toEqual(["work/clients", "clients/acme", "home", "work"]);
+  });
+
+  it("nests under a new parent or back at the top level", () => {
+    expect(ids(moveCategory(categories, "home", null, "work"))).toEqual(["work", "work/clients", "clients/acme", "work/home"]);
+    const top = moveCategory(categories, "acme", "home");
+    expect(ids(top)).toEqual(["work", "work/clients", "acme", "home"]);
+    expect(top[2]).not.toHaveProperty("parent");
+  });
+
+  it("refuses to nest a category inside itself or its descendants", () => {
+    expect(moveCategory(categories, "work", null, "work")).toBe(categories);
+    expect(moveCategory(categories, "work", null, "acme")).toBe(categories);
+  });
+
+  it("leaves the list alone for unknown ids or a move in front of itself", () => {
+    expect(moveCategory(categories, "gone", null)).toBe(categories);
+    expect(moveCategory(categories, "home", "home")).toBe(categories);
+  });
+});
+
+describe("categoryTree", () => {
+  it("lists children under their parents and counts roll up", () => {
+    const rows = categoryTree(moveCategory(categories, "home", "work"));
+    expect(rows.map((r) => [r.category.id, r.depth, r.hasChildren])).toEqual([
+      ["home", 0, false],
+      ["work", 0, true],
+      ["clients", 1, true],
+      ["acme", 2, false],
+    ]);
+    expect(rolledUpCounts(categories, { work: 1, clients: 2, acme: 3, home: 4 })).toEqual({ work: 6, clients: 5, acme: 3, home: 4 });
+  });
+});
@@ -0,0 +1,61 @@
+import type { Category } from "@/lib/types";
+
+// ---- Category Tree ----
+// Categories are stored as a flat list; the order of the list is the order of
+// siblings, and `parent` nests them. A parent that isn't in the list being
+// shown (trashed, hidden or unknown) leaves its children at the top level.
+export type CategoryRow = { category: Category; depth: number; hasChildren: boolean };
+
+export function categoryTree(categories: Category[]): CategoryRow[] {
+  const ids = new Set(categories.map((c) => c.id));
+  const children = new Map<string | undefined, Category[]>();
+  categories.forEach((c) => {
+    const parent = c.parent && ids.has(c.parent) ? c.parent : undefined;
+    children.set(parent, [...(children.get(parent) ?? []), c]);
+  });
+
+  const rows: CategoryRow[] = [];
+  const seen = new Set<string>();
+  const walk = (c: Category, depth: number) => {
+    if (seen.has(c.id)) return;
+    seen.add(c.id);
+    rows.push({ category: c, depth, hasChildren: !!children.get(c.id)?.length });
+    children.get(c.id)?.forEach((child) => walk(child, depth + 1));
+  };
+  children.get(undefined)?.forEach((c) => walk(c, 0));
+  // A parent cycle (only possible through bad synced data) never reaches the root.
+  categories.forEach((c) => walk(c, 0));
+  return rows;
+}
+
+export function descendantIds(categories: Category[], id: string): Set<string> {
+  const out = new Set<string>();
+  let frontier = [id];
+  while (frontier.length) {
+    const next = categories.filter((c) => c.parent && frontier.includes(c.parent) && c.id !== id && !out.has(c.id)).map((c) => c.id);
+    next.forEach((n) => out.add(n));
+    frontier = next;
+  }
+  return out;
+}
+
+/** Whether `id` may go under `parent` without ending up inside itself. */
+export const canNest = (categories: Category[], id: string, parent: string) => parent !== id && !descendantIds(categories, id).has(parent);
+
+/** Each category's own count plus those of everything nested under it. */
+export function rolledUpCounts(categories: Category[], counts: Record<string, number>): Record<string, number> {
+  return Object.fromEntries(
+    categories.map((c) => [c.id, [c.id, ...descendantIds(categories, c.id)].reduce((sum, id) => sum + (counts[id] ?? 0), 0)])
+  );
+}
+
+/** Moves `id` in front of `before` (or to the end) and under `parent`; refuses to nest a category inside itself. */
+export function moveCategory(categories: Category[], id: string, before: string | null, parent?: string): Category[] {
+  const moving = categories.find((c) => c.id === id);
+  if (!moving || id === before || (parent && !canNest(categories, id, parent))) return categories;
+  const rest = categories.filter((c) => c.id !== id);
+  const moved = { ...moving, parent };
+  if (!parent) delete moved.parent;
+  const at = before ? rest.findIndex((c) => c.id === before) : -1;
+  return at < 0 ? [...rest, moved] : [...rest.slice(0, at), moved, ...rest.slice(at)];
+}
@@ -0,0 +1,23 @@
+import type { TagColor } from "@/lib/types";
+
+// Badge classes for the shared palette, used by tags and categories.
+export const COLOR_CLASSES: Record<TagColor, string> = {
+  gray: "bg-zinc-100 text-zinc-700 border-zinc-200",
+  red: "bg-red-100 text-red-800 border-red-200",
+  amber: "bg-amber-100 text-amber-800 border-amber-200",
+  green: "bg-green-100 text-green-800 border-green-200",
+  blue: "bg-blue-100 text-blue-800 border-blue-200",
+  violet: "bg-violet-100 text-violet-800 border-violet-200",
+  pink: "bg-pink-100 text-pink-800 border-pink-200",
+};
+
+// Icon tint for the same palette, for icons outside a badge.
+export const ICON_CLASSES: Record<TagColor, string> = {
+  gray: "text-zinc-500",
+  red: "text-red-600",
+  amber: "text-amber-600",
+  green: "text-green-600",
+  blue: "text-blue-600",
+  violet: "text-violet-600",
+  pink: "text-pink-600",
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { answer, bucket, isSettled, nextPair, rankingPatches, refine, startSession } from "@/lib/compare";
+import type { CompareSession } from "@/lib/compare";
+import { makeItem } from "@/test/fixtures";
+
+// Answers every question from a known order of importance.
+function runWith(session: CompareSession, truth: string[]) {
+  let s = session;
+  for (let pair = nextPair(s); pair; pair = nextPair(s)) {
+    const [a, b] = pair;
+    s = answer(s, truth.indexOf(a) < truth.indexOf(b) ? "a" : "b");
+  }
+  return s;
+}
+
+const truth = Array.from({ length: 12 }, (_, i) => `i${i}`); // i0 matters most
+const shuffled = [7, 2, 11, 0, 5, 9, 3, 10, 1, 8, 6, 4].map((n) => `i${n}`);
+
+describe("bucket", () => {
+  it("splits positions into five even priority bands", () => {
+    expect(Array.from({ length: 10 }, (_, i) => bucket(i, 10))).toEqual([5, 5, 4, 4, 3, 3, 2, 2, 1, 1]);
+  });
+});
+
+describe("compare session", () => {
+  it("stops once every item's bucket is settled", () => {
+    const s = runWith(startSession(shuffled), truth);
+    expect(isSettled(s)).toBe(true);
+    expect(s.order.map((id) => bucket(truth.indexOf(id), truth.length))).toEqual(s.order.map((_, i) => bucket(i, truth.length)));
+  });
+
+  it("sorts exactly when refined", () => {
+    const settled = runWith(startSession(shuffled), truth);
+    const exact = runWith(refine(settled), truth);
+    expect(exact.order).toEqual(truth);
+    expect(exact.answers).toBeGreaterThan(settled.answers);
+  });
+
+  it("needs no answers for a single item", () => {
+    expect(isSettled(startSession(["only"]))).toBe(true);
+  });
+});
+
+describe("rankingPatches", () => {
+  it("writes priorities only, leaving the board order alone", () => {
+    const items = [makeItem("a", { rank: 3 }), makeItem("b", { priority: 2, rank: 0 }), makeItem("c")];
+    expect(rankingPatches(["a", "c", "b"], items)).toEqual({ a: { priority: 5 }, c: { priority: 4 } });
+  });
+});
@@ -0,0 +1,107 @@
+import type { Item } from "@/lib/types";
+
+// ---- Pairwise Ranking ----
+// An interactive quicksort driven by "which matters more?" answers. The order
+// is written back as five priority buckets, so a range of positions that all
+// fall into one bucket doesn't need sorting any further: the session stops as
+// soon as every item's bucket is settled, typically after ~2–3 answers per
+// item. Asking to refine then sorts those ranges too, for an exact order.
+export type Segment = { lo: number; hi: number }; // positions [lo, hi) in `order`
+
+type Partition = Segment & { pivot: string; rest: string[]; before: string[]; after: string[] };
+
+export type CompareSession = {
+  order: string[]; // most important first
+  pending: Segment[];
+  skipped: Segment[]; // within one bucket; only sorted when refining
+  active: Partition | null;
+  answers: number;
+  exact: boolean;
+};
+
+export type Answer = "a" | "b" | "tie"; // a = the item, b = the pivot
+
+export const bucket = (position: number, n: number) => 5 - Math.floor((position * 5) / n);
+
+function needsSort(s: Pick<CompareSession, "order" | "exact">, { lo, hi }: Segment) {
+  if (hi - lo < 2) return false;
+  return s.exact || bucket(lo, s.order.length) !== bucket(hi - 1, s.order.length);
+}
+
+// Picks the next segment that still needs sorting and starts partitioning it.
+function advance(s: CompareSession): CompareSession {
+  const pending = [...s.pending];
+  const skipped = [...s.skipped];
+  while (pending.length) {
+    const seg = pending.pop()!;
+    if (!needsSort(s, seg)) {
+      if (seg.hi - seg.lo > 1) skipped.push(seg);
+      continue;
+    }
+    const slice = s.order.slice(seg.lo, seg.hi);
+    const mid = Math.floor(slice.length / 2);
+    return { ...s, pending, skipped, active: { ...seg, pivot: slice[mid], rest: slice.filter((_, i) => i !== mid), before: [], after: [] } };
+  }
+  return { ...s, pending, skipped, active: null };
+}
+
+export function startSession(ids: string[]): CompareSession {
+  return advance({ order: ids, pending: [{ lo: 0, hi: ids.length }], skipped: [], active: null, answers: 0, exact: false });
+}
+
+export const isSettled = (s: CompareSession) => s.active === null;
+
+/** The item to place and the pivot it's compared against. */
+export const nextPair = (s: CompareSession): [string, string] | null => (s.active ? [s.active.rest[0], s.active.pivot] : null);
+
+export function answer(s: CompareSession, result: Answer): CompareSession {
+  const p = s.active;
+  if (!p) return s;
+  const [item, ...rest] = p.rest;
+  // Ties alternate sides so equal items don't pile up behind the pivot.
+  const first = result === "a" || (result === "tie" && p.before.length <= p.after.length);
+  const next: Partition = {
+    ...p,
+    rest,
+    before: first ? [...p.before, item] : p.before,
+    after: first ? p.after : [...p.after, item],
+  };
+  if (rest.length) return { ...s, active: next, answers: s.answers + 1 };
+
+  const order = [...s.order];
+  order.splice(p.lo, p.hi - p.lo, ...next.before, p.pivot, ...next.after);
+  const split = p.lo + next.before.length;
+  return advance({
+    ...s,
+    order,
+    answers: s.answers + 1,
+    pending: [...s.pending, { lo: split + 1, hi: p.hi }, { lo: p.lo, hi: split }],
+  });
+}
+
+/** Continues past the bucket boundaries to sort every item exactly. */
+export const refine = (s: CompareSession): CompareSession =>
+  advance({ ...s, exact: true, pending: [...s.pending, ...s.skipped], skipped: [] });
+
+/** How many items are in ranges still waiting to be sorted, for progress. */
+export function unsettledCount(s: CompareSession) {
+  const open = s.pending.filter((seg) => needsSort(s, seg));
+  return open.reduce((n, seg) => n + seg.hi - seg.lo, 0) + (s.active ? s.active.hi - s.active.lo : 0);
+}
+
+/**
+ * Writes the ranking back as `priority`, split into five even buckets, 5 for
+ * the top fifth down to 1. `rank` is left alone: it's the hand-made board
+ * order, per column, which a ranking across the category would scramble.
+ */
+export function rankingPatches(order: string[], items: Item[]): Record<string, Partial<Item>> {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const patches: Record<string, Partial<Item>> = {};
+  order.forEach((id, position) => {
+    const it = byId.get(id);
+    if (!it) return;
+    const priority = bucket(position, order.length);
+    if (it.priority !== priority) patches[id] = { priority };
+  });
+  return patches;
+}
@@ -0,0 +1,89 @@
+// ---- Encryption ----
+// Opt-in encryption of stored data and exports with WebCrypto: AES-GCM with a
+// 256-bit key derived from the passphrase by PBKDF2. The passphrase is never
+// stored; each envelope records the salt and iteration count it was sealed
+// with, so an exported file can be opened anywhere with the passphrase alone.
+export type Kdf = { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+
+export type Envelope = {
+  format: "brain-dump-encrypted";
+  version: 1;
+  kdf: Kdf;
+  cipher: "AES-GCM";
+  iv: string;
+  data: string;
+};
+
+/** A derived key plus the parameters that produced it. Lives in memory only. */
+export type Keyring = { key: CryptoKey; kdf: Kdf };
+
+const ITERATIONS = 600_000;
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  // Chunked: spreading a large array into fromCharCode overflows the stack.
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+}
+
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), (c) => c.charCodeAt(0));
+
+export function isEnvelope(raw: unknown): raw is Envelope {
+  const env = raw as Envelope | null;
+  return (
+    typeof env === "object" &&
+    env !== null &&
+    env.format === "brain-dump-encrypted" &&
+    env.version === 1 &&
+    env.kdf?.name === "PBKDF2" &&
+    typeof env.kdf.salt === "string" &&
+    typeof env.kdf.iterations === "number" &&
+    typeof env.iv === "string" &&
+    typeof env.data === "string"
+  );
+}
+
+/** The envelope in `text`, or null if it's anything else (e.g. a plain JSON export). */
+export function readEnvelope(text: string): Envelope | null {
+  try {
+    const raw = JSON.parse(text);
+    return isEnvelope(raw) ? raw : null;
+  } catch {
+    return null;
+  }
+}
+
+export async function deriveKeyring(passphrase: string, kdf?: Kdf): Promise<Keyring> {
+  const params: Kdf = kdf ?? { name: "PBKDF2", hash: "SHA-256", iterations: ITERATIONS, salt: toBase64(crypto.getRandomValues(new Uint8Array(16))) };
+  const material = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, ["deriveKey"]);
+  const key = await crypto.subtle.deriveKey(
+    { name: "PBKDF2", hash: params.hash, iterations: params.iterations, salt: fromBase64(params.salt) },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+  return { key, kdf: params };
+}
+
+export async function seal({ key, kdf }: Keyring, plaintext: string): Promise<Envelope> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+  return { format: "brain-dump-encrypted", version: 1, kdf, cipher: "AES-GCM", iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/** Rejects with "Wrong passphrase." when the key doesn't match (GCM authentication fails). */
+export async function unseal(key: CryptoKey, env: Envelope): Promise<string> {
+  try {
+    const data = await crypto.subtle.decrypt({ name: "AES-GCM", iv: fromBase64(env.iv) }, key, fromBase64(env.data));
+    return new TextDecoder().decode(data);
+  } catch {
+    throw new Error("Wrong passphrase.");
+  }
+}
+
+/** Derives the key from the envelope's own parameters and opens it. */
+export async function openEnvelope(passphrase: string, env: Envelope): Promise<{ keyring: Keyring; plaintext: string }> {
+  const keyring = await deriveKeyring(passphrase, env.kdf);
+  return { keyring, plaintext: await unseal(keyring.key, env) };
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { Category, Item } from "@/lib/types";
+import { parseCSV, toCSV } from "@/lib/csv";
+import { parseImportFile } from "@/lib/import";
+
+const categories: Category[] = [{ id: "home", label: "Home, sweet home" }];
+
+const full: Item = {
+  id: "a",
+  text: 'Fix the "big" door,\nthen paint',
+  category: "home",
+  createdAt: Date.UTC(2026, 0, 1),
+  updatedAt: Date.UTC(2026, 0, 2),
+  term: "short",
+  priority: 4,
+  status: "in_progress",
+  stage: "review",
+  rank: 2,
+  due: "2026-01-10",
+  recurrence: { kind: "weekly", weekdays: [1, 3] },
+  subtasks: [{ id: "s1", text: "Buy paint", status: "done" }],
+  tags: ["diy", "weekend"],
+  quadrant: "do",
+  archivedAt: Date.UTC(2026, 0, 3),
+  activity: [{ at: Date.UTC(2026, 0, 2), field: "status", from: "backlog", to: "in_progress" }],
+};
+
+const roundTrip = (items: Item[]) => {
+  const res = parseImportFile("export.csv", toCSV(items, categories));
+  if (!res.ok) throw new Error(res.error);
+  return res.source;
+};
+
+describe("CSV", () => {
+  it("round-trips every item field", () => {
+    const source = roundTrip([full]);
+    expect(source.invalid).toEqual([]);
+    expect(source.items).toEqual([full]);
+    expect(source.categories).toEqual(categories);
+  });
+
+  it("round-trips an item with only the required fields", () => {
+    const bare: Item = { id: "b", text: "Plain", category: "home", createdAt: 1000, updatedAt: 1000 };
+    expect(roundTrip([bare]).items).toEqual([bare]);
+  });
+
+  it("starts with a BOM and quotes fields that need it", () => {
+    const csv = toCSV([full], categories);
+    expect(csv.startsWith("\uFEFFid,text,")).toBe(true);
+    expect(csv).toContain('"Fix the ""big"" door,\nthen paint"');
+    expect(csv).toContain('"Home, sweet home"');
+  });
+
+  it("imports a hand-written file with a label column only", () => {
+    const raw = parseCSV("text,categoryLabel,priority\nCall mum,Family,3\n");
+    if ("error" in raw) throw new Error(raw.error);
+    expect(raw.categories).toEqual([{ id: "family", label: "Family" }]);
+    expect(raw.items[0]).toMatchObject({ text: "Call mum", category: "family", priority: 3 });
+  });
+
+  it("requires a text and a category column", () => {
+    expect(parseCSV("title\nx\n")).toEqual({ error: "Invalid CSV: expected a `text` column." });
+    expect(parseCSV("text\nx\n")).toEqual({ error: "Invalid CSV: expected a `category` or `categoryLabel` column." });
+  });
+});
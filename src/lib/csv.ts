@@ -0,0 +1,161 @@
+import type { Category, Item, Recurrence } from "@/lib/types";
+import { slugify, uid } from "@/lib/utils";
+import { normalizeTag } from "@/lib/tags";
+import type { RawImport } from "@/lib/import";
+
+// ---- CSV ----
+// One row per item with every Item field, plus the resolved category label so
+// the file reads well in a spreadsheet. Timestamps are written as ISO dates.
+const COLUMNS = ["id", "text", "category", "categoryLabel", "createdAt", "updatedAt", "term", "priority", "status", "stage", "rank", "due", "recurrence", "subtasks", "tags", "quadrant", "archivedAt", "activity"] as const;
+
+const BOM = "\uFEFF"; // lets Excel detect UTF-8
+
+// Recurrence as one cell: "daily", "weekly:1,3,5" (0 = Sunday) or "monthly:15".
+function formatRecurrence(rule: Recurrence | undefined) {
+  if (!rule) return "";
+  if (rule.kind === "weekly") return `weekly:${rule.weekdays.join(",")}`;
+  if (rule.kind === "monthly") return `monthly:${rule.day}`;
+  return rule.kind;
+}
+
+function parseRecurrence(value: string | undefined): unknown {
+  if (!value) return undefined;
+  const [kind, arg = ""] = value.split(":");
+  if (kind === "weekly") return { kind, weekdays: arg ? arg.split(",").map(Number) : [] };
+  if (kind === "monthly") return { kind, day: Number(arg) };
+  return { kind };
+}
+
+// Subtasks and activity are JSON arrays in one cell; junk is passed on for validation to reject.
+function parseJSONCell(value: string | undefined): unknown {
+  if (!value) return undefined;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+function escapeField(value: string) {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function toCSV(items: Item[], categories: Category[]): string {
+  const labels = new Map(categories.map((c) => [c.id, c.label]));
+  const rows = items.map((it) =>
+    [
+      it.id,
+      it.text,
+      it.category,
+      labels.get(it.category) ?? "",
+      new Date(it.createdAt).toISOString(),
+      new Date(it.updatedAt).toISOString(),
+      it.term ?? "",
+      it.priority === undefined ? "" : String(it.priority),
+      it.status ?? "",
+      it.stage ?? "",
+      it.rank === undefined ? "" : String(it.rank),
+      it.due ?? "",
+      formatRecurrence(it.recurrence),
+      it.subtasks?.length ? JSON.stringify(it.subtasks) : "",
+      (it.tags ?? []).join(" "),
+      it.quadrant ?? "",
+      it.archivedAt === undefined ? "" : new Date(it.archivedAt).toISOString(),
+      it.activity?.length ? JSON.stringify(it.activity) : "",
+    ].map(escapeField).join(",")
+  );
+  return BOM + [COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// RFC 4180: quoted fields may contain commas, doubled quotes and line breaks.
+function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.startsWith(BOM) ? text.slice(1) : text;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+const toTimestamp = (value: string | undefined) => {
+  if (!value) return undefined;
+  const n = Number(value);
+  if (Number.isFinite(n)) return n;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? value : parsed; // leave junk in place for validation to reject
+};
+
+export function parseCSV(text: string): RawImport {
+  const [header, ...rows] = parseCSVRows(text);
+  if (!header) return { error: "The CSV file is empty." };
+  const cols = header.map((h) => h.trim());
+  if (!cols.includes("text")) return { error: "Invalid CSV: expected a `text` column." };
+  if (!cols.includes("category") && !cols.includes("categoryLabel")) {
+    return { error: "Invalid CSV: expected a `category` or `categoryLabel` column." };
+  }
+
+  const categories = new Map<string, Category>();
+  const items = rows.map((cells) => {
+    const get = (col: string) => {
+      const v = cells[cols.indexOf(col)];
+      return v === undefined || v === "" ? undefined : v;
+    };
+    const label = get("categoryLabel");
+    const category = get("category") ?? (label ? slugify(label) : undefined);
+    if (category && !categories.has(category)) categories.set(category, { id: category, label: label ?? category });
+    const createdAt = toTimestamp(get("createdAt")) ?? Date.now();
+    const priority = get("priority");
+    const rank = get("rank");
+    return {
+      id: get("id") ?? uid(),
+      text: get("text"),
+      category,
+      createdAt,
+      updatedAt: toTimestamp(get("updatedAt")) ?? createdAt,
+      term: get("term"),
+      priority: priority === undefined ? undefined : Number(priority),
+      status: get("status"),
+      stage: get("stage"),
+      rank: rank === undefined ? undefined : Number(rank),
+      due: get("due"),
+      recurrence: parseRecurrence(get("recurrence")),
+      subtasks: parseJSONCell(get("subtasks")),
+      tags: get("tags")?.split(/\s+/).map(normalizeTag).filter(Boolean),
+      quadrant: get("quadrant"),
+      archivedAt: toTimestamp(get("archivedAt")),
+      activity: parseJSONCell(get("activity")),
+    };
+  });
+  return { items, categories: [...categories.values()] };
+}
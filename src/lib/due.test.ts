@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import type { Item, Recurrence } from "@/lib/types";
+import { addDays, dueState, isDateKey, nextDue, occurrencesBetween, parseDueWord, spawnNextOccurrence } from "@/lib/due";
+import { makeItem } from "@/test/fixtures";
+
+const mk = (patch: Partial<Item> = {}) => makeItem("a", { text: "Water plants", ...patch });
+const dates = (item: Item, start: string, end: string) => occurrencesBetween(item, start, end).map((o) => o.date);
+
+// 2026-10-19 is a Monday.
+const TODAY = "2026-10-19";
+
+describe("dates", () => {
+  it("validates and shifts calendar days", () => {
+    expect(isDateKey("2024-02-29")).toBe(true);
+    expect(isDateKey("2026-02-29")).toBe(false);
+    expect(addDays("2026-12-31", 1)).toBe("2027-01-01");
+  });
+
+  it("reads typed dates", () => {
+    expect(parseDueWord("tom", TODAY)).toBe("2026-10-20");
+    expect(parseDueWord("+2w", TODAY)).toBe("2026-11-02");
+    expect(parseDueWord("fri", TODAY)).toBe("2026-10-23");
+    expect(parseDueWord("mon", TODAY)).toBe(TODAY);
+    expect(parseDueWord("2026-13-01", TODAY)).toBeNull();
+    expect(parseDueWord("someday", TODAY)).toBeNull();
+  });
+
+  it("says whether an open item is overdue, due today or upcoming", () => {
+    expect(dueState(mk({ due: "2026-10-18" }), TODAY)).toBe("overdue");
+    expect(dueState(mk({ due: TODAY }), TODAY)).toBe("today");
+    expect(dueState(mk({ due: "2026-10-18", status: "done" }), TODAY)).toBeNull();
+  });
+});
+
+describe("nextDue", () => {
+  it("steps daily, by weekday and by month", () => {
+    expect(nextDue({ kind: "daily" }, TODAY)).toBe("2026-10-20");
+    expect(nextDue({ kind: "weekly", weekdays: [1, 4] }, TODAY)).toBe("2026-10-22");
+    expect(nextDue({ kind: "weekly", weekdays: [] }, TODAY)).toBe("2026-10-26");
+  });
+
+  it("clamps monthly repeats to short months without drifting", () => {
+    const rule: Recurrence = { kind: "monthly", day: 31 };
+    expect(nextDue(rule, "2026-01-31")).toBe("2026-02-28");
+    expect(nextDue(rule, "2026-02-28")).toBe("2026-03-31");
+  });
+});
+
+describe("spawnNextOccurrence", () => {
+  it("moves the rule to a fresh item due after today", () => {
+    const now = new Date(2026, 9, 19, 12).getTime();
+    const next = spawnNextOccurrence(mk({ due: "2026-10-01", recurrence: { kind: "weekly", weekdays: [4] }, status: "done" }), now);
+    expect(next).toMatchObject({ due: "2026-10-22", status: "backlog", recurrence: { kind: "weekly", weekdays: [4] } });
+    expect(spawnNextOccurrence(mk({ due: TODAY }), now)).toBeNull();
+  });
+});
+
+describe("occurrencesBetween", () => {
+  it("marks repeats after the stored due date as projected", () => {
+    expect(occurrencesBetween(mk({ due: "2026-10-20", recurrence: { kind: "daily" } }), TODAY, "2026-10-21")).toEqual([
+      { date: "2026-10-20", projected: false },
+      { date: "2026-10-21", projected: true },
+    ]);
+  });
+
+  it("doesn't repeat finished items", () => {
+    expect(dates(mk({ due: TODAY, recurrence: { kind: "daily" }, status: "done" }), TODAY, "2026-10-25")).toEqual([TODAY]);
+  });
+
+  it("finds repeats of an anchor years before the window", () => {
+    expect(dates(mk({ due: "2019-01-01", recurrence: { kind: "daily" } }), "2026-10-01", "2026-10-03")).toEqual(["2026-10-01", "2026-10-02", "2026-10-03"]);
+    // 2019-01-02 was a Wednesday.
+    expect(dates(mk({ due: "2019-01-02", recurrence: { kind: "weekly", weekdays: [] } }), "2026-10-01", "2026-10-20")).toEqual(["2026-10-07", "2026-10-14"]);
+    expect(dates(mk({ due: "2019-01-03", recurrence: { kind: "weekly", weekdays: [1, 5] } }), "2026-10-01", "2026-10-06")).toEqual(["2026-10-02", "2026-10-05"]);
+    expect(dates(mk({ due: "2019-01-31", recurrence: { kind: "monthly", day: 31 } }), "2026-02-01", "2026-03-31")).toEqual(["2026-02-28", "2026-03-31"]);
+  });
+});
@@ -0,0 +1,147 @@
+import type { Item, Recurrence } from "@/lib/types";
+import { uid } from "@/lib/utils";
+
+// ---- Dates ----
+// Due dates are calendar days in local time, stored as "YYYY-MM-DD" so they
+// compare correctly as plain strings.
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toDateKey = (d: Date) => `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+
+export function fromDateKey(key: string) {
+  const [y, m, d] = key.split("-").map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export const isDateKey = (v: unknown): v is string =>
+  typeof v === "string" && /^\d{4}-\d{2}-\d{2}$/.test(v) && toDateKey(fromDateKey(v)) === v;
+
+export const todayKey = () => toDateKey(new Date());
+
+export function addDays(key: string, n: number) {
+  const d = fromDateKey(key);
+  d.setDate(d.getDate() + n);
+  return toDateKey(d);
+}
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+export const fmtDue = (key: string) =>
+  fromDateKey(key).toLocaleDateString(undefined, { weekday: "short", month: "short", day: "numeric" });
+
+/**
+ * Reads a typed date: today/tod, tomorrow/tom, a weekday name or prefix (the
+ * next one, today included), +3d / +2w offsets, or YYYY-MM-DD.
+ */
+export function parseDueWord(word: string, today = todayKey()): string | null {
+  const w = word.toLowerCase();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(w)) return isDateKey(w) ? w : null;
+  if (w === "today" || w === "tod") return today;
+  if (w === "tomorrow" || w === "tom") return addDays(today, 1);
+  const offset = /^\+?(\d+)([dw])$/.exec(w);
+  if (offset) return addDays(today, Number(offset[1]) * (offset[2] === "w" ? 7 : 1));
+  const names = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+  const day = w.length >= 2 ? names.findIndex((n) => n.startsWith(w)) : -1;
+  if (day === -1) return null;
+  return addDays(today, (day - fromDateKey(today).getDay() + 7) % 7);
+}
+
+export type DueState = "overdue" | "today" | "upcoming";
+
+export function dueState(item: Item, today = todayKey()): DueState | null {
+  if (!item.due || item.status === "done") return null;
+  return item.due < today ? "overdue" : item.due === today ? "today" : "upcoming";
+}
+
+// ---- Recurrence ----
+/** The first occurrence strictly after `from`. */
+export function nextDue(rule: Recurrence, from: string): string {
+  switch (rule.kind) {
+    case "daily":
+      return addDays(from, 1);
+    case "weekly": {
+      if (!rule.weekdays.length) return addDays(from, 7);
+      for (let i = 1; i <= 7; i++) {
+        const key = addDays(from, i);
+        if (rule.weekdays.includes(fromDateKey(key).getDay())) return key;
+      }
+      return addDays(from, 7);
+    }
+    case "monthly": {
+      const d = fromDateKey(from);
+      // Short months clamp to their last day without drifting the rule's day.
+      const lastDay = new Date(d.getFullYear(), d.getMonth() + 2, 0).getDate();
+      return toDateKey(new Date(d.getFullYear(), d.getMonth() + 1, Math.min(rule.day, lastDay)));
+    }
+  }
+}
+
+export function describeRecurrence(rule: Recurrence) {
+  switch (rule.kind) {
+    case "daily":
+      return "daily";
+    case "weekly":
+      return rule.weekdays.length ? `weekly on ${rule.weekdays.map((d) => WEEKDAYS[d]).join(", ")}` : "weekly";
+    case "monthly":
+      return `monthly on day ${rule.day}`;
+  }
+}
+
+/**
+ * When a recurring item is completed, the completed copy stops recurring and
+ * the rule moves to a fresh item due on the next occurrence after today.
+ */
+export function spawnNextOccurrence(item: Item, now = Date.now()): Item | null {
+  if (!item.recurrence) return null;
+  const today = toDateKey(new Date(now));
+  let due = nextDue(item.recurrence, item.due ?? today);
+  while (due <= today) due = nextDue(item.recurrence, due);
+  return {
+    id: uid(),
+    text: item.text,
+    category: item.category,
+    createdAt: now,
+    updatedAt: now,
+    term: item.term,
+    priority: item.priority,
+    quadrant: item.quadrant,
+    tags: item.tags,
+    status: "backlog",
+    due,
+    recurrence: item.recurrence,
+    subtasks: item.subtasks?.map((s) => ({ ...s, id: uid(), status: "backlog" })),
+  };
+}
+
+/**
+ * A date before `start` (or `from` itself) from which nextDue still reaches
+ * every occurrence of the rule on or after `start`: whole weeks on from `from`,
+ * or the month before for monthly rules. It skips the years between an old
+ * anchor and the window.
+ */
+function skipTowards(rule: Recurrence, from: string, start: string): string {
+  const before = addDays(start, -1);
+  if (from >= before) return from;
+  if (rule.kind === "monthly") {
+    const s = fromDateKey(start);
+    const lastDay = new Date(s.getFullYear(), s.getMonth(), 0).getDate();
+    const key = toDateKey(new Date(s.getFullYear(), s.getMonth() - 1, Math.min(rule.day, lastDay)));
+    return key > from ? key : from;
+  }
+  const days = Math.round((fromDateKey(before).getTime() - fromDateKey(from).getTime()) / 86_400_000); // rounding absorbs DST
+  return addDays(from, Math.floor(days / 7) * 7);
+}
+
+/** Due dates of `item` in [start, end], including projected repeats. */
+export function occurrencesBetween(item: Item, start: string, end: string): { date: string; projected: boolean }[] {
+  if (!item.due) return [];
+  const out: { date: string; projected: boolean }[] = [];
+  const rule = item.status === "done" ? undefined : item.recurrence;
+  let date = rule ? skipTowards(rule, item.due, start) : item.due;
+  for (let i = 0; i < 400 && date <= end; i++) {
+    if (date >= start) out.push({ date, projected: date !== item.due });
+    if (!rule) break;
+    date = nextDue(rule, date);
+  }
+  return out;
+}
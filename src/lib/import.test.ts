@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { defaultCategoryMap, planImport, unknownCategories } from "@/lib/import";
+import type { ImportOptions, ImportSource } from "@/lib/import";
+import { makeItem } from "@/test/fixtures";
+
+const home: Category = { id: "home", label: "Home" };
+const local = [makeItem("a", { updatedAt: 5 }), makeItem("b")];
+const localCats = [home];
+
+const source = (patch: Partial<ImportSource> = {}): ImportSource => ({ items: [], categories: [home], invalid: [], warnings: [], ...patch });
+const merge: ImportOptions = { mode: "merge", resolutions: {}, categoryMap: {} };
+const replace: ImportOptions = { ...merge, mode: "replace" };
+
+describe("planImport", () => {
+  it("adds new items and skips unchanged ones when merging", () => {
+    const plan = planImport(local, localCats, source({ items: [makeItem("c"), local[1]] }), merge);
+    expect(plan.added.map((i) => i.id)).toEqual(["c"]);
+    expect(plan.skipped).toEqual([{ text: "b", reason: "unchanged" }]);
+    expect(plan.items.map((i) => i.id)).toEqual(["c", "a", "b"]);
+    expect(plan.removed).toEqual([]);
+  });
+
+  it("settles clashes by the newest version unless told otherwise", () => {
+    const older = makeItem("a", { text: "older", updatedAt: 1 });
+    const newer = makeItem("b", { text: "newer", updatedAt: 9 });
+    const plan = planImport(local, localCats, source({ items: [older, newer] }), merge);
+    expect(plan.conflicts.map((c) => [c.local.id, c.takeIncoming])).toEqual([["a", false], ["b", true]]);
+    expect(plan.items.map((i) => i.text)).toEqual(["a", "newer"]);
+
+    const chosen = planImport(local, localCats, source({ items: [older, newer] }), { ...merge, resolutions: { a: "incoming", b: "local" } });
+    expect(chosen.items.map((i) => i.text)).toEqual(["older", "b"]);
+    expect(chosen.skipped).toEqual([{ text: "newer", reason: "kept local copy" }]);
+  });
+
+  it("replaces everything with the file, listing what goes", () => {
+    const plan = planImport(local, localCats, source({ items: [makeItem("a", { text: "edited" })], categories: [{ id: "work", label: "Work" }] }), replace);
+    expect(plan.items).toEqual([makeItem("a", { text: "edited" })]);
+    expect(plan.updated).toHaveLength(1);
+    expect(plan.removed.map((i) => i.id)).toEqual(["b"]);
+    expect(plan.categories).toEqual([{ id: "work", label: "Work" }, { id: "home", label: "home" }]);
+  });
+
+  it("keeps an empty replace empty", () => {
+    const plan = planImport(local, localCats, source({ categories: [] }), replace);
+    expect(plan.items).toEqual([]);
+    expect(plan.categories).toEqual([]);
+  });
+
+  it("moves items into mapped categories and creates the ones mapped to themselves", () => {
+    const incoming = source({ items: [makeItem("c", { category: "house" }), makeItem("d", { category: "garden" })], categories: [{ id: "house", label: "home" }] });
+    const unknown = unknownCategories(incoming, "merge", localCats);
+    expect(unknown).toEqual([{ id: "house", label: "home" }, { id: "garden", label: "garden" }]);
+    const categoryMap = defaultCategoryMap(unknown, localCats);
+    expect(categoryMap).toEqual({ house: "home", garden: "garden" });
+
+    const plan = planImport(local, localCats, incoming, { ...merge, categoryMap });
+    expect(plan.added.map((i) => i.category)).toEqual(["home", "garden"]);
+    expect(plan.categories).toEqual([home, { id: "garden", label: "garden" }]);
+  });
+
+  it("reports invalid records as skipped", () => {
+    const plan = planImport(local, localCats, source({ invalid: [{ raw: { text: "broken" }, reason: "missing id" }] }), merge);
+    expect(plan.skipped).toEqual([{ text: "broken", reason: "invalid: missing id" }]);
+  });
+});
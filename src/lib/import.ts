@@ -0,0 +1,179 @@
+import type { Category, Item } from "@/lib/types";
+import { migrateDocument, SCHEMA_VERSION } from "@/lib/schema";
+import { parseCSV } from "@/lib/csv";
+import { parseMarkdown } from "@/lib/markdown";
+
+// ---- Import Source ----
+// An import file after validation. Records that failed validation are kept in
+// `invalid` so the preview can report them as skipped. Formats that can't hold
+// every item field bring an `update` that applies what they have to an item
+// that already exists, so it keeps the rest.
+export type ImportSource = {
+  items: Item[];
+  categories: Category[];
+  invalid: { raw: unknown; reason: string }[];
+  warnings: string[];
+  update?: (local: Item, incoming: Item) => Item;
+};
+
+export type ParseResult = { ok: true; source: ImportSource } | { ok: false; error: string };
+
+/** Item and category records read from a file in any format, not yet validated. */
+export type RawImport = { items: unknown[]; categories: unknown[]; version?: number; update?: ImportSource["update"] } | { error: string };
+
+function toSource(raw: RawImport): ParseResult {
+  if ("error" in raw) return { ok: false, error: raw.error };
+  const { doc, recovered } = migrateDocument({ version: raw.version ?? SCHEMA_VERSION, items: raw.items, categories: raw.categories });
+  return {
+    ok: true,
+    source: {
+      items: doc.items,
+      categories: doc.categories,
+      invalid: recovered.filter((r) => r.kind === "item" || r.kind === "category"),
+      warnings: recovered.filter((r) => r.kind === "document" || r.kind === "settings").map((r) => r.reason),
+      update: raw.update,
+    },
+  };
+}
+
+function parseJSON(text: string): RawImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: "Failed to parse file: not valid JSON." };
+  }
+  if (typeof data !== "object" || data === null) return { error: "Invalid file structure." };
+  const { version, items, categories } = data as Record<string, unknown>;
+  if (!Array.isArray(items) || !Array.isArray(categories)) {
+    return { error: "Invalid file structure: expected `items` and `categories` lists." };
+  }
+  // Exports before the versioned schema carry no version; treat them as v0.
+  return { items, categories, version: typeof version === "number" ? version : 0 };
+}
+
+/** Picks a parser by file extension; anything unrecognized is read as JSON. */
+export function parseImportFile(fileName: string, text: string): ParseResult {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "csv") return toSource(parseCSV(text));
+  if (ext === "md" || ext === "markdown") return toSource(parseMarkdown(text));
+  return toSource(parseJSON(text));
+}
+
+// ---- Import Plan ----
+export type ImportMode = "replace" | "merge";
+/** How to settle an item that exists on both sides with different content. */
+export type Resolution = "newest" | "local" | "incoming";
+
+export type ImportOptions = {
+  mode: ImportMode;
+  resolutions: Record<string, Resolution>; // by item id; missing means "newest"
+  categoryMap: Record<string, string>; // incoming category id -> target id; mapping to itself creates it
+};
+
+export type Conflict = { local: Item; incoming: Item; resolution: Resolution; takeIncoming: boolean };
+
+export type ImportPlan = {
+  items: Item[];
+  categories: Category[];
+  added: Item[];
+  updated: Item[];
+  removed: Item[];
+  skipped: { text: string; reason: string }[];
+  conflicts: Conflict[];
+};
+
+function sameItem(a: Item, b: Item) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Item>;
+  // Structured fields (recurrence, subtasks) compare by value.
+  return [...keys].every((k) => a[k] === b[k] || JSON.stringify(a[k]) === JSON.stringify(b[k]));
+}
+
+// Categories the import refers to that the target (local categories when
+// merging, the file's own categories when replacing) doesn't have.
+export function unknownCategories(source: ImportSource, mode: ImportMode, local: Category[]): Category[] {
+  const known = new Set((mode === "merge" ? local : source.categories).map((c) => c.id));
+  const unknown = new Map<string, Category>();
+  if (mode === "merge") {
+    source.categories.forEach((c) => {
+      if (!known.has(c.id)) unknown.set(c.id, c);
+    });
+  }
+  source.items.forEach((it) => {
+    if (!known.has(it.category) && !unknown.has(it.category)) unknown.set(it.category, { id: it.category, label: it.category });
+  });
+  return [...unknown.values()];
+}
+
+// Maps unknown categories onto an existing one with the same label, and
+// creates the rest.
+export function defaultCategoryMap(unknown: Category[], targets: Category[]): Record<string, string> {
+  const byLabel = new Map(targets.map((c) => [c.label.trim().toLowerCase(), c.id]));
+  return Object.fromEntries(unknown.map((c) => [c.id, byLabel.get(c.label.trim().toLowerCase()) ?? c.id]));
+}
+
+/** Works out what applying `source` would do, without touching anything. */
+export function planImport(localItems: Item[], localCats: Category[], source: ImportSource, options: ImportOptions): ImportPlan {
+  const { mode, resolutions, categoryMap } = options;
+  const unknown = unknownCategories(source, mode, localCats);
+  const created = unknown.filter((c) => (categoryMap[c.id] ?? c.id) === c.id);
+  const byId = new Map(localItems.map((i) => [i.id, i]));
+  const incoming = source.items.map((it) => {
+    const target = categoryMap[it.category] ?? it.category;
+    const mapped = target === it.category ? it : { ...it, category: target };
+    const local = byId.get(it.id);
+    if (!local || !source.update) return mapped;
+    // Stamped with the incoming time only if the file changes anything.
+    const updated = source.update(local, mapped);
+    return sameItem(local, updated) ? local : { ...updated, updatedAt: mapped.updatedAt };
+  });
+
+  const added: Item[] = [];
+  const updated: Item[] = [];
+  const skipped: ImportPlan["skipped"] = source.invalid.map((r) => ({
+    text: typeof (r.raw as Item | null)?.text === "string" ? (r.raw as Item).text : JSON.stringify(r.raw),
+    reason: `invalid: ${r.reason}`,
+  }));
+  const conflicts: Conflict[] = [];
+
+  for (const inc of incoming) {
+    const local = byId.get(inc.id);
+    if (!local) {
+      added.push(inc);
+    } else if (sameItem(local, inc)) {
+      skipped.push({ text: inc.text, reason: "unchanged" });
+    } else if (mode === "replace") {
+      updated.push(inc);
+    } else {
+      const resolution = resolutions[inc.id] ?? "newest";
+      const takeIncoming = resolution === "incoming" || (resolution === "newest" && inc.updatedAt > local.updatedAt);
+      conflicts.push({ local, incoming: inc, resolution, takeIncoming });
+      if (takeIncoming) updated.push(inc);
+      else skipped.push({ text: inc.text, reason: resolution === "local" ? "kept local copy" : "local copy is newer" });
+    }
+  }
+
+  if (mode === "replace") {
+    const ids = new Set(incoming.map((i) => i.id));
+    return {
+      items: incoming,
+      categories: [...source.categories, ...created],
+      added,
+      updated,
+      removed: localItems.filter((i) => !ids.has(i.id)),
+      skipped,
+      conflicts,
+    };
+  }
+
+  const replacements = new Map(updated.map((i) => [i.id, i]));
+  return {
+    items: [...added, ...localItems.map((i) => replacements.get(i.id) ?? i)],
+    categories: [...localCats, ...created],
+    added,
+    updated,
+    removed: [],
+    skipped,
+    conflicts,
+  };
+}
@@ -0,0 +1,48 @@
+import type { Item, WorkflowStatus } from "@/lib/types";
+import { columnOf } from "@/lib/workflow";
+
+// ---- Board Ordering ----
+// Cards carry a `rank` once they've been placed by hand. Ranked cards come
+// first in rank order; unranked ones follow in the default priority/age order.
+const defaultOrder = (a: Item, b: Item) => (b.priority || 0) - (a.priority || 0) || a.createdAt - b.createdAt;
+
+export function boardOrder(a: Item, b: Item) {
+  if (a.rank !== undefined && b.rank !== undefined) return a.rank - b.rank;
+  if (a.rank !== undefined) return -1;
+  if (b.rank !== undefined) return 1;
+  return defaultOrder(a, b);
+}
+
+export type Columns = Record<string, Item[]>; // by column id
+
+export function groupColumns(items: Item[], workflow: WorkflowStatus[]): Columns {
+  const g: Columns = Object.fromEntries(workflow.map((c) => [c.id, [] as Item[]]));
+  items.forEach((i) => g[columnOf(i, workflow).id].push(i));
+  workflow.forEach((c) => g[c.id].sort(boardOrder));
+  return g;
+}
+
+/**
+ * Patches that move card `id` to position `index` of column `to`, counting
+ * only the cards `shown` (the board may hide some behind a filter). The card
+ * lands right before the shown card at that position, or after the last one.
+ * The whole destination column, hidden cards included, is re-ranked so its
+ * order survives a reload; the source column keeps its relative order and
+ * needs no changes.
+ */
+export function planMove(columns: Columns, id: string, to: WorkflowStatus, index: number, shown: (item: Item) => boolean = () => true): Record<string, Partial<Item>> {
+  const card = Object.values(columns).flat().find((i) => i.id === id);
+  if (!card) return {};
+  const dest = columns[to.id].filter((i) => i.id !== id);
+  const visible = dest.filter(shown);
+  const at = Math.max(0, index);
+  const position = at < visible.length ? dest.indexOf(visible[at]) : visible.length ? dest.indexOf(visible[visible.length - 1]) + 1 : dest.length;
+  dest.splice(position, 0, card);
+
+  const patches: Record<string, Partial<Item>> = {};
+  dest.forEach((it, rank) => {
+    if (it.rank !== rank) patches[it.id] = { rank };
+  });
+  if (!columns[to.id].includes(card)) patches[id] = { ...patches[id], stage: to.id, status: to.kind };
+  return patches;
+}
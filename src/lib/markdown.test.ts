@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import type { Category } from "@/lib/types";
+import { toMarkdown } from "@/lib/markdown";
+import { parseImportFile, planImport } from "@/lib/import";
+import type { ImportSource } from "@/lib/import";
+import { makeItem } from "@/test/fixtures";
+
+const categories: Category[] = [{ id: "home", label: "Home" }];
+const items = [
+  makeItem("a", { text: "Fix the door\nthen paint", term: "short", status: "in_progress", stage: "doing", priority: 4, tags: ["diy"] }),
+  makeItem("b", { text: "Call mum", subtasks: [{ id: "s1", text: "Find number", status: "in_progress" }] }),
+];
+
+const parse = (text: string): ImportSource => {
+  const res = parseImportFile("export.md", text);
+  if (!res.ok) throw new Error(res.error);
+  return res.source;
+};
+
+const merge = (source: ImportSource) => planImport(items, categories, source, { mode: "merge", resolutions: {}, categoryMap: {} });
+
+describe("Markdown", () => {
+  it("writes a checklist with hidden ids", () => {
+    const md = toMarkdown(items, categories);
+    expect(md).toContain("## Home\n\n### short\n- [ ] Fix the door <!-- id:a -->\n  then paint");
+    expect(md).toContain("- [ ] Call mum <!-- id:b -->\n  - [ ] Find number <!-- id:s1 -->");
+  });
+
+  it("re-imports its own export without duplicates or conflicts", () => {
+    const plan = merge(parse(toMarkdown(items, categories)));
+    expect(plan.added).toEqual([]);
+    expect(plan.conflicts).toEqual([]);
+    expect(plan.skipped.map((s) => s.reason)).toEqual(["unchanged", "unchanged"]);
+    expect(plan.items).toEqual(items);
+  });
+
+  it("applies checked boxes and edited text, keeping what Markdown can't hold", () => {
+    const md = toMarkdown(items, categories).replace("- [ ] Fix the door", "- [x] Fix the door").replace("Call mum", "Call mum back");
+    const plan = merge(parse(md));
+    expect(plan.updated).toHaveLength(2);
+    const [a, b] = plan.items;
+    expect(a).toMatchObject({ status: "done", stage: undefined, priority: 4, tags: ["diy"], term: "short" });
+    expect(b).toMatchObject({ text: "Call mum back", subtasks: [{ id: "s1", text: "Find number", status: "in_progress" }] });
+  });
+
+  it("gives hand-written lines new items", () => {
+    const plan = merge(parse("## Home\n- [ ] Water plants\n"));
+    expect(plan.added).toMatchObject([{ text: "Water plants", category: "home", status: "backlog" }]);
+  });
+});
@@ -0,0 +1,132 @@
+import { TERMS } from "@/lib/types";
+import type { Category, Item, Status, Term } from "@/lib/types";
+import { slugify, uid } from "@/lib/utils";
+import type { RawImport } from "@/lib/import";
+
+// ---- Markdown ----
+// Each category is a `##` heading, each term a `###` heading below it, and each
+// item a checklist line: `- [x]` when done, `- [ ]` otherwise. Continuation
+// lines of multi-line items are indented under their checkbox, followed by the
+// item's subtasks as an indented checklist. Items and subtasks end in an
+// `<!-- id:… -->` comment, hidden when rendered, so a re-import matches them
+// up with the ones already here; hand-written lines get new ids.
+const NO_TERM = "No term";
+
+
+const ID_COMMENT = /\s*<!--\s*id:(\S+?)\s*-->\s*$/;
+const withId = (line: string, id: string) => `${line} <!-- id:${id} -->`;
+
+// The line without its id comment, and the id if it had one.
+function splitId(text: string): [string, string | undefined] {
+  const match = ID_COMMENT.exec(text);
+  return match ? [text.slice(0, match.index).trim(), match[1]] : [text.trim(), undefined];
+}
+
+const checklistLine = (it: Item) => {
+  const [first, ...rest] = it.text.split("\n");
+  const box = (status: Item["status"]) => `[${status === "done" ? "x" : " "}]`;
+  return [
+    withId(`- ${box(it.status)} ${first}`, it.id),
+    ...rest.map((l) => `  ${l}`),
+    ...(it.subtasks ?? []).map((s) => withId(`  - ${box(s.status)} ${s.text.replace(/\s*\n\s*/g, " ")}`, s.id)),
+  ].join("\n");
+};
+
+export function toMarkdown(items: Item[], categories: Category[]): string {
+  const out = ["# Brain Dump", "", `_Exported ${new Date().toISOString().slice(0, 10)}_`];
+  const known = new Set(categories.map((c) => c.id));
+  // Items in categories that no longer exist still get a section, titled by id.
+  const orphans = [...new Set(items.filter((i) => !known.has(i.category)).map((i) => i.category))];
+  const sections = [...categories, ...orphans.map((id) => ({ id, label: id }))];
+
+  sections.forEach((c) => {
+    const inCat = items.filter((i) => i.category === c.id);
+    if (!inCat.length) return;
+    out.push("", `## ${c.label}`);
+    [...TERMS, undefined].forEach((t) => {
+      const group = inCat.filter((i) => i.term === t);
+      if (!group.length) return;
+      out.push("", `### ${t ?? NO_TERM}`, ...group.map(checklistLine));
+    });
+  });
+  return out.join("\n") + "\n";
+}
+
+const CHECKLIST = /^\s*[-*+]\s+\[([ xX])\]\s?(.*)$/;
+
+export function parseMarkdown(text: string): RawImport {
+  const categories = new Map<string, Category>();
+  const items: Record<string, unknown>[] = [];
+  let category: string | undefined;
+  let term: Term | undefined;
+  let last: Record<string, unknown> | undefined;
+  const now = Date.now();
+
+  for (const line of text.split(/\r?\n/)) {
+    const heading = /^(#{1,6})\s+(.*?)\s*#*\s*$/.exec(line);
+    const check = CHECKLIST.exec(line);
+    if (heading) {
+      last = undefined;
+      const level = heading[1].length;
+      const title = heading[2];
+      if (level === 2) {
+        const id = slugify(title);
+        if (!categories.has(id)) categories.set(id, { id, label: title });
+        category = id;
+        term = undefined;
+      } else if (level === 3) {
+        const t = title.toLowerCase().replace(/\s+term$/, "");
+        term = TERMS.includes(t as Term) ? (t as Term) : undefined;
+      }
+    } else if (check && last && /^\s{2,}/.test(line)) {
+      const subtasks = (last.subtasks ??= []) as Record<string, unknown>[];
+      const [text, id] = splitId(check[2]);
+      subtasks.push({ id: id ?? uid(), text, status: check[1] === " " ? "backlog" : "done" });
+    } else if (check) {
+      if (!category) {
+        category = "imported";
+        categories.set(category, { id: category, label: "Imported" });
+      }
+      const [text, id] = splitId(check[2]);
+      last = {
+        id: id ?? uid(),
+        text,
+        category,
+        createdAt: now,
+        updatedAt: now,
+        term,
+        status: check[1] === " " ? "backlog" : "done",
+      };
+      items.push(last);
+    } else if (last && /^\s{2,}\S/.test(line)) {
+      last.text = `${last.text}\n${line.trim()}`;
+    } else if (line.trim()) {
+      last = undefined;
+    }
+  }
+
+  if (!items.length) return { error: "No checklist items (`- [ ]` / `- [x]` lines) found in this Markdown file." };
+  return { items, categories: [...categories.values()], update: updateFromMarkdown };
+}
+
+// A checkbox only says whether something is done, so a status is kept unless that changed.
+const keepStatus = (local: Status | undefined, incoming: Status | undefined) => ((local === "done") === (incoming === "done") ? local : incoming);
+
+/** `local` with what a Markdown line holds: text, category, term, done or not, and subtasks. */
+export function updateFromMarkdown(local: Item, incoming: Item): Item {
+  const status = keepStatus(local.status, incoming.status);
+  const subtasks = incoming.subtasks?.map((s) => {
+    const mine = local.subtasks?.find((o) => o.id === s.id);
+    return mine ? { ...mine, text: s.text, status: keepStatus(mine.status, s.status)! } : s;
+  });
+  return {
+    ...local,
+    text: incoming.text,
+    category: incoming.category,
+    term: incoming.term,
+    status,
+    subtasks: subtasks ?? (local.subtasks?.length ? undefined : local.subtasks),
+    // A card that changed between open and done leaves its board column for one that fits.
+    stage: status === local.status ? local.stage : undefined,
+  };
+}
@@ -0,0 +1,20 @@
+import type { Item, Quadrant } from "@/lib/types";
+
+// ---- Eisenhower Matrix ----
+// Placing an item in a quadrant also sets its 0–5 priority, so sorting,
+// search and the board keep working off `priority` alone.
+export const QUADRANT_INFO: Record<Quadrant, { label: string; hint: string; urgent: boolean; important: boolean; priority: number }> = {
+  do: { label: "Do first", hint: "Urgent and important", urgent: true, important: true, priority: 5 },
+  schedule: { label: "Schedule", hint: "Important, not urgent", urgent: false, important: true, priority: 4 },
+  delegate: { label: "Delegate", hint: "Urgent, not important", urgent: true, important: false, priority: 2 },
+  eliminate: { label: "Eliminate", hint: "Neither urgent nor important", urgent: false, important: false, priority: 0 },
+};
+
+export const placeIn = (quadrant: Quadrant | undefined): Partial<Item> =>
+  quadrant ? { quadrant, priority: QUADRANT_INFO[quadrant].priority } : { quadrant: undefined };
+
+/** A priority set some other way (slider, bulk edit) that no longer matches drops the placement. */
+export function reconcileQuadrant(item: Item): Item {
+  if (!item.quadrant || item.priority === QUADRANT_INFO[item.quadrant].priority) return item;
+  return { ...item, quadrant: undefined };
+}
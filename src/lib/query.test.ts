@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import type { Category, Item } from "@/lib/types";
+import { filterItems, parseQuery } from "@/lib/query";
+import { makeItem } from "@/test/fixtures";
+
+const NOW = Date.UTC(2026, 9, 19);
+const DAY = 86_400_000;
+
+const categories: Category[] = [
+  { id: "home", label: "Home" },
+  { id: "homework", label: "School" },
+  { id: "finance", label: "Money" },
+];
+
+const mk = (id: string, patch: Partial<Item> = {}) => makeItem(id, { createdAt: NOW - DAY, updatedAt: NOW - DAY, ...patch });
+
+const items: Item[] = [
+  mk("rent", { category: "finance", term: "short", priority: 5, status: "blocked", tags: ["bills"] }),
+  mk("essay", { category: "homework", term: "medium", priority: 2, status: "in_progress", stage: "review" }),
+  mk("dishes", { createdAt: NOW - 10 * DAY }),
+  mk("old", { archivedAt: NOW }),
+  mk("gone", { deletedAt: NOW }),
+];
+
+const ids = (query: string) => filterItems(items, parseQuery(query), categories, NOW).map((i) => i.id);
+
+describe("parseQuery", () => {
+  it("reads fields, comparisons, negation and quoted text", () => {
+    expect(parseQuery('-status:in-progress p>=3 "pay rent"').clauses).toEqual([
+      { kind: "status", value: "in_progress", negate: true },
+      { kind: "priority", op: ">=", value: 3, negate: false },
+      { kind: "text", value: "pay rent", negate: false },
+    ]);
+  });
+
+  it("reports clauses it can't read and searches unknown fields as text", () => {
+    const { clauses, errors } = parseQuery("term:soon p>9 created:yesterday cat: https://x.y");
+    expect(errors).toHaveLength(4);
+    expect(clauses).toEqual([{ kind: "text", value: "https://x.y", negate: false }]);
+  });
+
+  it("treats a non-built-in status as a board column", () => {
+    expect(parseQuery("status:review").clauses).toEqual([{ kind: "stage", value: "review", negate: false }]);
+  });
+});
+
+describe("filterItems", () => {
+  it("matches cat: against id or label as a substring", () => {
+    expect(ids("cat:home")).toEqual(["essay", "dishes"]);
+    expect(ids("cat:money")).toEqual(["rent"]);
+  });
+
+  it("matches cat:= against the exact id", () => {
+    expect(ids("cat:=home")).toEqual(["dishes"]);
+    expect(parseQuery("cat:=").errors).toHaveLength(1);
+  });
+
+  it("filters by tag, term, status, column and priority", () => {
+    expect(ids("tag:bills")).toEqual(["rent"]);
+    expect(ids("term:medium")).toEqual(["essay"]);
+    expect(ids("status:backlog")).toEqual(["dishes"]);
+    expect(ids("status:review")).toEqual(["essay"]);
+    expect(ids("p<3")).toEqual(["essay", "dishes"]);
+    expect(ids("-status:blocked p>0")).toEqual(["essay"]);
+  });
+
+  it("compares age with created:", () => {
+    expect(ids("created:>7d")).toEqual(["dishes"]);
+    expect(ids("created:<2d")).toEqual(["rent", "essay"]);
+  });
+
+  it("finds untriaged items", () => {
+    expect(ids("is:untriaged")).toEqual(["dishes"]);
+  });
+
+  it("leaves archived items out unless asked for, and trashed ones always", () => {
+    expect(ids("")).toEqual(["rent", "essay", "dishes"]);
+    expect(ids("is:archived")).toEqual(["old"]);
+  });
+});
@@ -0,0 +1,133 @@
+import { STATUSES, TERMS } from "@/lib/types";
+import type { Category, Item, Status, Term } from "@/lib/types";
+import { normalizeTag } from "@/lib/tags";
+import { needsTriage } from "@/lib/triage";
+
+// ---- Search Query Language ----
+// Whitespace-separated clauses, all of which must match:
+//   cat:finance      category id or label contains "finance"
+//   cat:=finance     category id is exactly "finance" (what dashboard drills use)
+//   tag:errands      has the tag "errands"
+//   term:short       term is short | medium | long
+//   status:blocked   status (in_progress can be written in-progress), or a board column's id
+//   p>=3             priority compared with > >= < <= = (unset counts as 0)
+//   created:<7d      created less than 7 days ago (units: h d w m); > for older
+//   is:untriaged     missing a term or a priority
+//   is:archived      archived items, which are otherwise left out (trashed ones always are)
+//   "two words"      free text, matched case-insensitively against item text
+// Any clause can be negated with a leading "-", e.g. -status:done.
+type Op = "<" | "<=" | ">" | ">=" | "=";
+
+type Matcher =
+  | { kind: "text"; value: string }
+  | { kind: "cat"; value: string }
+  | { kind: "catId"; value: string }
+  | { kind: "tag"; value: string }
+  | { kind: "term"; value: Term }
+  | { kind: "status"; value: Status }
+  | { kind: "stage"; value: string }
+  | { kind: "priority"; op: Op; value: number }
+  | { kind: "created"; op: Op; ms: number }
+  | { kind: "untriaged" }
+  | { kind: "archived" };
+
+export type Clause = Matcher & { negate: boolean };
+
+export type ParsedQuery = { clauses: Clause[]; errors: string[] };
+
+const UNIT_MS: Record<string, number> = { h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000, m: 30 * 86_400_000 };
+
+const TOKEN = /-?(?:[a-z]+:)?"[^"]*"?|\S+/gi;
+const unquote = (s: string) => s.replace(/^"|"$/g, "");
+
+const compare = (a: number, op: Op, b: number) =>
+  op === "<" ? a < b : op === "<=" ? a <= b : op === ">" ? a > b : op === ">=" ? a >= b : a === b;
+
+function parseToken(token: string): Matcher | string {
+  const priority = /^p(>=|<=|>|<|=|:)(\d+)$/i.exec(token);
+  if (priority) {
+    const value = Number(priority[2]);
+    if (value > 5) return `priority ${value} is out of range (0–5)`;
+    return { kind: "priority", op: priority[1] === ":" ? "=" : (priority[1] as Op), value };
+  }
+
+  const field = /^([a-z]+):(.*)$/i.exec(token);
+  if (!field) return { kind: "text", value: unquote(token).toLowerCase() };
+  const [, key, rawValue] = field;
+  const value = unquote(rawValue).toLowerCase();
+  if (!value) return `"${key}:" needs a value`;
+
+  switch (key.toLowerCase()) {
+    case "cat":
+    case "category":
+      if (!value.startsWith("=")) return { kind: "cat", value };
+      return value.length > 1 ? { kind: "catId", value: value.slice(1) } : `"${key}:=" needs a category id`;
+    case "tag":
+      return { kind: "tag", value: normalizeTag(value) };
+    case "term":
+      return TERMS.includes(value as Term) ? { kind: "term", value: value as Term } : `unknown term "${value}"`;
+    case "status": {
+      const status = value.replace(/[-\s]/g, "_");
+      // A built-in status covers every column of that kind.
+      return STATUSES.includes(status as Status) ? { kind: "status", value: status as Status } : { kind: "stage", value };
+    }
+    case "created": {
+      const age = /^(<=|>=|<|>)?(\d+)([hdwm])$/.exec(value);
+      if (!age) return `can't read "created:${value}", try created:<7d`;
+      return { kind: "created", op: (age[1] ?? "<") as Op, ms: Number(age[2]) * UNIT_MS[age[3]] };
+    }
+    case "is":
+      if (value === "untriaged" || value === "archived") return { kind: value };
+      return `unknown "is:${value}", try is:untriaged or is:archived`;
+    default:
+      // Not a known field (e.g. a URL or "note:"); search for it as text.
+      return { kind: "text", value: unquote(token).toLowerCase() };
+  }
+}
+
+export function parseQuery(query: string): ParsedQuery {
+  const clauses: Clause[] = [];
+  const errors: string[] = [];
+  for (const raw of query.match(TOKEN) ?? []) {
+    const negate = raw.length > 1 && raw.startsWith("-");
+    const res = parseToken(negate ? raw.slice(1) : raw);
+    if (typeof res === "string") errors.push(res);
+    else if (!(res.kind === "text" && !res.value)) clauses.push({ ...res, negate });
+  }
+  return { clauses, errors };
+}
+
+function matchesClause(it: Item, c: Clause, labels: Map<string, string>, now: number): boolean {
+  switch (c.kind) {
+    case "text":
+      return it.text.toLowerCase().includes(c.value);
+    case "cat":
+      return it.category.toLowerCase().includes(c.value) || (labels.get(it.category) ?? "").toLowerCase().includes(c.value);
+    case "catId":
+      return it.category.toLowerCase() === c.value;
+    case "tag":
+      return it.tags?.includes(c.value) ?? false;
+    case "term":
+      return it.term === c.value;
+    case "status":
+      return (it.status ?? "backlog") === c.value;
+    case "stage":
+      return it.stage === c.value;
+    case "priority":
+      return compare(it.priority ?? 0, c.op, c.value);
+    case "created":
+      return compare(now - it.createdAt, c.op, c.ms);
+    case "untriaged":
+      return needsTriage(it);
+    case "archived":
+      return !!it.archivedAt;
+  }
+}
+
+export function filterItems(items: Item[], query: ParsedQuery, categories: Category[], now = Date.now()): Item[] {
+  const labels = new Map(categories.map((c) => [c.id, c.label]));
+  const archived = query.clauses.some((c) => c.kind === "archived" && !c.negate);
+  return items.filter(
+    (it) => !it.deletedAt && (archived || !it.archivedAt) && query.clauses.every((c) => matchesClause(it, c, labels, now) !== c.negate)
+  );
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CATEGORIES, DEFAULT_SETTINGS } from "@/lib/types";
+import { SCHEMA_VERSION, migrateDocument, parseCategory, parseItem } from "@/lib/schema";
+
+const item = { id: "a", text: "Pay rent", category: "finance", createdAt: 1000, updatedAt: 2000 };
+
+describe("migrateDocument", () => {
+  it("upgrades a v0 document and backfills updatedAt", () => {
+    const { doc, recovered } = migrateDocument({ version: 0, items: [{ id: "a", text: "x", category: "work", createdAt: 5 }], categories: [{ id: "work", label: "Work" }] });
+    expect(doc.version).toBe(SCHEMA_VERSION);
+    expect(doc.items).toEqual([{ id: "a", text: "x", category: "work", createdAt: 5, updatedAt: 5 }]);
+    expect(doc.categories).toEqual([{ id: "work", label: "Work" }]);
+    expect(doc.settings).toEqual(DEFAULT_SETTINGS);
+    expect(recovered).toEqual([]);
+  });
+
+  it("quarantines invalid and duplicate records instead of dropping them", () => {
+    const { doc, recovered } = migrateDocument({ version: SCHEMA_VERSION, items: [item, { ...item, text: "again" }, { id: "b" }], categories: [] });
+    expect(doc.items).toEqual([item]);
+    expect(recovered.map((r) => r.reason)).toEqual(['duplicate id "a"', expect.any(String)]);
+    expect(doc.quarantine).toHaveLength(2);
+  });
+
+  it("gives default categories only to documents without a category list", () => {
+    expect(migrateDocument({ version: 0, items: [] }).doc.categories).toEqual(DEFAULT_CATEGORIES);
+    expect(migrateDocument({ version: SCHEMA_VERSION, items: [], categories: [] }).doc.categories).toEqual([]);
+    const { doc, recovered } = migrateDocument({ version: SCHEMA_VERSION, items: [], categories: [{ id: 1 }] });
+    expect(doc.categories).toEqual([]);
+    expect(recovered).toHaveLength(1);
+  });
+
+  it("keeps a copy of a document from a newer build and loads what it can", () => {
+    const { doc, recovered } = migrateDocument({ version: SCHEMA_VERSION + 1, items: [item], categories: [] });
+    expect(doc.items).toEqual([item]);
+    expect(recovered[0].kind).toBe("document");
+  });
+
+  it("never throws on something that isn't a document", () => {
+    const { doc, recovered } = migrateDocument("nonsense");
+    expect(doc.items).toEqual([]);
+    expect(recovered[0].reason).toBe("unrecognized document");
+  });
+
+  it("ignores unusable settings", () => {
+    const settings = { kanban: true, lockMinutes: 0, workflow: [{ id: "todo", label: "To do", kind: "backlog" }] };
+    const { doc } = migrateDocument({ version: SCHEMA_VERSION, items: [], categories: [], settings });
+    expect(doc.settings).toEqual({ ...DEFAULT_SETTINGS, kanban: true });
+  });
+});
+
+describe("parseItem", () => {
+  it("accepts the optional fields and drops unknown ones", () => {
+    const res = parseItem({ ...item, term: "short", priority: 3, status: "blocked", stage: "review", due: "2026-02-28", tags: ["home"], extra: 1 });
+    expect(res).toEqual({ ok: true, value: { ...item, term: "short", priority: 3, status: "blocked", stage: "review", due: "2026-02-28", tags: ["home"] } });
+  });
+
+  it("rejects out-of-range values", () => {
+    expect(parseItem({ ...item, priority: 9 }).ok).toBe(false);
+    expect(parseItem({ ...item, due: "2026-02-30" }).ok).toBe(false);
+    expect(parseItem({ ...item, status: "waiting" }).ok).toBe(false);
+  });
+});
+
+describe("parseCategory", () => {
+  it("reads a category with its own workflow", () => {
+    const workflow = [
+      { id: "todo", label: "To do", kind: "backlog" },
+      { id: "done", label: "Done", kind: "done", wip: 3 },
+    ];
+    expect(parseCategory({ id: "work", label: "Work", workflow })).toEqual({ ok: true, value: { id: "work", label: "Work", workflow } });
+  });
+});
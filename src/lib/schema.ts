@@ -0,0 +1,272 @@
+import { ACTIVITY_FIELDS, CATEGORY_ICONS, DEFAULT_CATEGORIES, DEFAULT_SETTINGS, PRIORITIZE_MODES, QUADRANTS, STATUSES, TAG_COLORS, TERMS } from "@/lib/types";
+import type { Activity, ActivityField, Category, CategoryIconName, Item, PrioritizeMode, Quadrant, Recurrence, Settings, Status, Subtask, TagColor, Term, WorkflowStatus } from "@/lib/types";
+import { isDateKey } from "@/lib/due";
+import { isUsableWorkflow } from "@/lib/workflow";
+
+// ---- Persisted Document ----
+// Everything the app stores lives in one versioned document. Older layouts are
+// upgraded through MIGRATIONS before validation, and anything that still fails
+// validation is moved to `quarantine` instead of being dropped.
+export const SCHEMA_VERSION = 2;
+
+export type QuarantinedRecord = {
+  kind: "item" | "category" | "settings" | "document";
+  raw: unknown;
+  reason: string;
+  quarantinedAt: number;
+};
+
+export type PersistedDoc = {
+  version: number;
+  items: Item[];
+  categories: Category[];
+  settings: Settings;
+  quarantine: QuarantinedRecord[];
+};
+
+export type LoadResult = {
+  doc: PersistedDoc;
+  recovered: QuarantinedRecord[]; // records quarantined during this load
+};
+
+type RawDoc = Record<string, unknown>;
+type Migration = (doc: RawDoc) => RawDoc;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1.
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 is the pre-schema layout: an Item[] and a Category[] stored under separate keys.
+  0: (doc) => ({
+    version: 1,
+    items: doc.items ?? [],
+    categories: doc.categories,
+    settings: {},
+    quarantine: [],
+  }),
+  // v2 adds `updatedAt` to items; until now creation was the only known change.
+  1: (doc) => ({
+    ...doc,
+    version: 2,
+    items: Array.isArray(doc.items)
+      ? doc.items.map((it) => (isRecord(it) && isAbsent(it.updatedAt) ? { ...it, updatedAt: it.createdAt } : it))
+      : doc.items,
+  }),
+};
+
+export const emptyDocument = (): PersistedDoc => ({
+  version: SCHEMA_VERSION,
+  items: [],
+  categories: [...DEFAULT_CATEGORIES],
+  settings: { ...DEFAULT_SETTINGS },
+  quarantine: [],
+});
+
+export const quarantined = (kind: QuarantinedRecord["kind"], raw: unknown, reason: string): QuarantinedRecord => ({
+  kind,
+  raw,
+  reason,
+  quarantinedAt: Date.now(),
+});
+
+// ---- Validation ----
+type Result<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+const isRecord = (v: unknown): v is RawDoc => typeof v === "object" && v !== null && !Array.isArray(v);
+const isAbsent = (v: unknown) => v === undefined || v === null;
+const isNonEmptyString = (v: unknown): v is string => typeof v === "string" && v.length > 0;
+const isTimestamp = (v: unknown): v is number => typeof v === "number" && Number.isFinite(v);
+
+function isRecurrence(v: unknown): v is Recurrence {
+  if (!isRecord(v)) return false;
+  if (v.kind === "daily") return true;
+  if (v.kind === "weekly") {
+    return Array.isArray(v.weekdays) && v.weekdays.every((d) => Number.isInteger(d) && d >= 0 && d <= 6);
+  }
+  if (v.kind === "monthly") return Number.isInteger(v.day) && (v.day as number) >= 1 && (v.day as number) <= 31;
+  return false;
+}
+
+const isSubtask = (v: unknown): v is Subtask =>
+  isRecord(v) && isNonEmptyString(v.id) && typeof v.text === "string" && STATUSES.includes(v.status as Status);
+
+const isActivityValue = (v: unknown) => isAbsent(v) || typeof v === "string" || (typeof v === "number" && Number.isFinite(v));
+
+const isActivity = (v: unknown): v is Activity =>
+  isRecord(v) && isTimestamp(v.at) && ACTIVITY_FIELDS.includes(v.field as ActivityField) && isActivityValue(v.from) && isActivityValue(v.to);
+
+const isWorkflowStatus = (v: unknown): v is WorkflowStatus =>
+  isRecord(v) &&
+  isNonEmptyString(v.id) &&
+  isNonEmptyString(v.label) &&
+  STATUSES.includes(v.kind as Status) &&
+  (isAbsent(v.color) || TAG_COLORS.includes(v.color as TagColor)) &&
+  (isAbsent(v.wip) || (typeof v.wip === "number" && Number.isInteger(v.wip) && v.wip > 0));
+
+// Unique column ids, and somewhere for both open and finished items.
+const isWorkflow = (v: unknown): v is WorkflowStatus[] =>
+  Array.isArray(v) &&
+  v.every(isWorkflowStatus) &&
+  new Set(v.map((c) => c.id)).size === v.length &&
+  isUsableWorkflow(v);
+
+export function parseItem(raw: unknown): Result<Item> {
+  if (!isRecord(raw)) return { ok: false, reason: "not an object" };
+  const { id, text, category, createdAt, updatedAt, term, priority, status, rank, due, recurrence, subtasks, tags, quadrant, conflictOf, archivedAt, deletedAt, activity, stage } = raw;
+  if (!isNonEmptyString(id)) return { ok: false, reason: "missing id" };
+  if (typeof text !== "string") return { ok: false, reason: "missing text" };
+  if (!isNonEmptyString(category)) return { ok: false, reason: "missing category" };
+  if (typeof createdAt !== "number" || !Number.isFinite(createdAt)) return { ok: false, reason: "invalid createdAt" };
+  if (typeof updatedAt !== "number" || !Number.isFinite(updatedAt)) return { ok: false, reason: "invalid updatedAt" };
+  if (!isAbsent(term) && !TERMS.includes(term as Term)) return { ok: false, reason: `unknown term "${String(term)}"` };
+  if (!isAbsent(priority) && !(typeof priority === "number" && Number.isInteger(priority) && priority >= 0 && priority <= 5)) {
+    return { ok: false, reason: `invalid priority "${String(priority)}"` };
+  }
+  if (!isAbsent(status) && !STATUSES.includes(status as Status)) return { ok: false, reason: `unknown status "${String(status)}"` };
+  if (!isAbsent(stage) && !isNonEmptyString(stage)) return { ok: false, reason: "invalid stage" };
+  if (!isAbsent(rank) && !(typeof rank === "number" && Number.isFinite(rank))) return { ok: false, reason: `invalid rank "${String(rank)}"` };
+  if (!isAbsent(due) && !isDateKey(due)) return { ok: false, reason: `invalid due date "${String(due)}"` };
+  if (!isAbsent(recurrence) && !isRecurrence(recurrence)) return { ok: false, reason: "invalid recurrence" };
+  if (!isAbsent(subtasks) && !(Array.isArray(subtasks) && subtasks.every(isSubtask))) return { ok: false, reason: "invalid subtasks" };
+  if (!isAbsent(tags) && !(Array.isArray(tags) && tags.every(isNonEmptyString))) return { ok: false, reason: "invalid tags" };
+  if (!isAbsent(conflictOf) && !isNonEmptyString(conflictOf)) return { ok: false, reason: "invalid conflictOf" };
+  if (!isAbsent(quadrant) && !QUADRANTS.includes(quadrant as Quadrant)) return { ok: false, reason: `unknown quadrant "${String(quadrant)}"` };
+  if (!isAbsent(archivedAt) && !isTimestamp(archivedAt)) return { ok: false, reason: "invalid archivedAt" };
+  if (!isAbsent(deletedAt) && !isTimestamp(deletedAt)) return { ok: false, reason: "invalid deletedAt" };
+  if (!isAbsent(activity) && !(Array.isArray(activity) && activity.every(isActivity))) return { ok: false, reason: "invalid activity" };
+
+  const item: Item = { id, text, category, createdAt, updatedAt };
+  if (!isAbsent(term)) item.term = term as Term;
+  if (!isAbsent(priority)) item.priority = priority as number;
+  if (!isAbsent(status)) item.status = status as Status;
+  if (!isAbsent(stage)) item.stage = stage as string;
+  if (!isAbsent(rank)) item.rank = rank as number;
+  if (!isAbsent(due)) item.due = due as string;
+  if (!isAbsent(recurrence)) item.recurrence = recurrence as Recurrence;
+  if (!isAbsent(subtasks)) item.subtasks = subtasks as Subtask[];
+  if (!isAbsent(tags)) item.tags = tags as string[];
+  if (!isAbsent(quadrant)) item.quadrant = quadrant as Quadrant;
+  if (!isAbsent(conflictOf)) item.conflictOf = conflictOf as string;
+  if (!isAbsent(archivedAt)) item.archivedAt = archivedAt as number;
+  if (!isAbsent(deletedAt)) item.deletedAt = deletedAt as number;
+  if (!isAbsent(activity)) item.activity = activity as Activity[];
+  return { ok: true, value: item };
+}
+
+export function parseCategory(raw: unknown): Result<Category> {
+  if (!isRecord(raw)) return { ok: false, reason: "not an object" };
+  if (!isNonEmptyString(raw.id)) return { ok: false, reason: "missing id" };
+  if (!isNonEmptyString(raw.label)) return { ok: false, reason: "missing label" };
+  if (!isAbsent(raw.color) && !TAG_COLORS.includes(raw.color as TagColor)) return { ok: false, reason: `unknown color "${String(raw.color)}"` };
+  if (!isAbsent(raw.icon) && !CATEGORY_ICONS.includes(raw.icon as CategoryIconName)) return { ok: false, reason: `unknown icon "${String(raw.icon)}"` };
+  if (!isAbsent(raw.parent) && !(isNonEmptyString(raw.parent) && raw.parent !== raw.id)) return { ok: false, reason: "invalid parent" };
+  if (!isAbsent(raw.hidden) && typeof raw.hidden !== "boolean") return { ok: false, reason: "invalid hidden" };
+  if (!isAbsent(raw.workflow) && !isWorkflow(raw.workflow)) return { ok: false, reason: "invalid workflow" };
+  if (!isAbsent(raw.deletedAt) && !isTimestamp(raw.deletedAt)) return { ok: false, reason: "invalid deletedAt" };
+  const category: Category = { id: raw.id, label: raw.label };
+  if (!isAbsent(raw.color)) category.color = raw.color as TagColor;
+  if (!isAbsent(raw.icon)) category.icon = raw.icon as CategoryIconName;
+  if (!isAbsent(raw.parent)) category.parent = raw.parent as string;
+  if (raw.hidden) category.hidden = true;
+  if (!isAbsent(raw.workflow)) category.workflow = raw.workflow as WorkflowStatus[];
+  if (!isAbsent(raw.deletedAt)) category.deletedAt = raw.deletedAt as number;
+  return { ok: true, value: category };
+}
+
+function parseSettings(raw: unknown, recovered: QuarantinedRecord[]): Settings {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (isAbsent(raw)) return settings;
+  if (!isRecord(raw)) {
+    recovered.push(quarantined("settings", raw, "not an object"));
+    return settings;
+  }
+  if (typeof raw.kanban === "boolean") settings.kanban = raw.kanban;
+  if (raw.filterTerm === "all" || TERMS.includes(raw.filterTerm as Term)) settings.filterTerm = raw.filterTerm as Settings["filterTerm"];
+  if (PRIORITIZE_MODES.includes(raw.prioritizeMode as PrioritizeMode)) settings.prioritizeMode = raw.prioritizeMode as PrioritizeMode;
+  if (typeof raw.lockMinutes === "number" && Number.isInteger(raw.lockMinutes) && raw.lockMinutes >= 1 && raw.lockMinutes <= 1440) {
+    settings.lockMinutes = raw.lockMinutes;
+  }
+  for (const key of ["trashDays", "archiveDays"] as const) {
+    const days = raw[key];
+    if (typeof days === "number" && Number.isInteger(days) && days >= 0 && days <= 3650) settings[key] = days;
+  }
+  if (isWorkflow(raw.workflow)) settings.workflow = raw.workflow;
+  if (isRecord(raw.tagColors)) {
+    settings.tagColors = Object.fromEntries(
+      Object.entries(raw.tagColors).filter((e): e is [string, TagColor] => TAG_COLORS.includes(e[1] as TagColor))
+    );
+  }
+  return settings;
+}
+
+// Validates every record in `raw`, quarantining the ones that don't fit and
+// de-duplicating ids (first occurrence wins). Only a document without a
+// category list (a new or pre-schema one) gets the default categories; an
+// empty list, e.g. from an import, stays empty.
+function validate(raw: RawDoc, recovered: QuarantinedRecord[]): PersistedDoc {
+  const items: Item[] = [];
+  const seenItems = new Set<string>();
+  if (Array.isArray(raw.items)) {
+    raw.items.forEach((r) => {
+      const res = parseItem(r);
+      if (!res.ok) recovered.push(quarantined("item", r, res.reason));
+      else if (seenItems.has(res.value.id)) recovered.push(quarantined("item", r, `duplicate id "${res.value.id}"`));
+      else {
+        seenItems.add(res.value.id);
+        items.push(res.value);
+      }
+    });
+  } else if (!isAbsent(raw.items)) {
+    recovered.push(quarantined("item", raw.items, "items is not a list"));
+  }
+
+  const categories: Category[] = isAbsent(raw.categories) ? [...DEFAULT_CATEGORIES] : [];
+  if (Array.isArray(raw.categories)) {
+    raw.categories.forEach((r) => {
+      const res = parseCategory(r);
+      if (!res.ok) recovered.push(quarantined("category", r, res.reason));
+      else if (categories.some((c) => c.id === res.value.id)) recovered.push(quarantined("category", r, `duplicate id "${res.value.id}"`));
+      else categories.push(res.value);
+    });
+  } else if (!isAbsent(raw.categories)) {
+    recovered.push(quarantined("category", raw.categories, "categories is not a list"));
+  }
+
+  const settings = parseSettings(raw.settings, recovered);
+  const previous = Array.isArray(raw.quarantine) ? (raw.quarantine as QuarantinedRecord[]) : [];
+
+  return {
+    version: SCHEMA_VERSION,
+    items,
+    categories,
+    settings,
+    quarantine: [...previous, ...recovered],
+  };
+}
+
+// Upgrades `raw` to SCHEMA_VERSION and validates it. Never throws: whatever
+// can't be read ends up in the returned document's quarantine.
+export function migrateDocument(raw: unknown): LoadResult {
+  const recovered: QuarantinedRecord[] = [];
+  if (!isRecord(raw) || typeof raw.version !== "number") {
+    recovered.push(quarantined("document", raw, "unrecognized document"));
+    return { doc: { ...emptyDocument(), quarantine: recovered }, recovered };
+  }
+
+  let doc: RawDoc = raw;
+  if (raw.version > SCHEMA_VERSION) {
+    // Written by a newer build: keep an untouched copy, then load what we understand.
+    recovered.push(quarantined("document", raw, `schema version ${raw.version} is newer than ${SCHEMA_VERSION}`));
+  }
+  while ((doc.version as number) < SCHEMA_VERSION) {
+    const step = MIGRATIONS[doc.version as number];
+    try {
+      if (!step) throw new Error(`no migration from version ${doc.version}`);
+      doc = step(doc);
+    } catch (e) {
+      recovered.push(quarantined("document", raw, e instanceof Error ? e.message : "migration failed"));
+      return { doc: { ...emptyDocument(), quarantine: recovered }, recovered };
+    }
+  }
+
+  const result = validate(doc, recovered);
+  return { doc: result, recovered };
+}
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import type { Category, Item } from "@/lib/types";
+import { applyPulled, applyPushResult, emptyMeta, mergeCategoryRecords, mergeItemRecords, pendingChanges } from "@/lib/server-sync";
+import type { PushChange, SyncMeta, SyncRecord } from "@/lib/server-sync";
+import { makeItem } from "@/test/fixtures";
+
+const home: Category = { id: "home", label: "Home" };
+
+// Pushes everything and has the server accept it at revision `rev`.
+function pushAll(items: Item[], categories: Category[], meta: SyncMeta = emptyMeta(), rev = 1) {
+  const changes = pendingChanges(items, categories, meta);
+  return applyPushResult(meta, changes, { seq: rev, accepted: changes.map(({ kind, id }) => ({ kind, id, rev })), conflicts: [] });
+}
+
+const itemRecord = (item: Item | null, rev: number, id = item?.id ?? ""): SyncRecord => ({ kind: "item", id, rev, data: item });
+
+describe("pendingChanges", () => {
+  it("sends everything to a new server, then nothing until something changes", () => {
+    const items = [makeItem("a")];
+    expect(pendingChanges(items, [home], emptyMeta())).toEqual<PushChange[]>([
+      { kind: "item", id: "a", baseRev: 0, data: items[0] },
+      { kind: "category", id: "home", baseRev: 0, data: { ...home, position: 0 } },
+    ]);
+    const meta = pushAll(items, [home]);
+    expect(pendingChanges(items, [home], meta)).toEqual([]);
+  });
+
+  it("sends edits against the last known revision and deletes as null", () => {
+    const meta = pushAll([makeItem("a"), makeItem("b")], [home], emptyMeta(), 3);
+    const edited = makeItem("a", { text: "edited", updatedAt: 9 });
+    expect(pendingChanges([edited], [home], meta)).toEqual([
+      { kind: "item", id: "a", baseRev: 3, data: edited },
+      { kind: "item", id: "b", baseRev: 3, data: null },
+    ]);
+  });
+
+  it("ignores key order when deciding what changed", () => {
+    const meta = pushAll([makeItem("a", { term: "short" })], [home]);
+    const reordered = { term: "short", updatedAt: 0, createdAt: 0, category: "home", text: "a", id: "a" } as Item;
+    expect(pendingChanges([reordered], [home], meta)).toEqual([]);
+  });
+
+  it("leaves rejected changes unsynced", () => {
+    const changes = pendingChanges([makeItem("a")], [], emptyMeta());
+    const meta = applyPushResult(emptyMeta(), changes, { seq: 1, accepted: [], conflicts: [] });
+    expect(pendingChanges([makeItem("a")], [], meta)).toHaveLength(1);
+  });
+});
+
+describe("mergeItemRecords", () => {
+  const base = makeItem("a");
+  const meta = pushAll([base], [home]);
+
+  it("takes a newer remote version of an unchanged item", () => {
+    const remote = makeItem("a", { text: "remote", updatedAt: 5 });
+    expect(mergeItemRecords([base], [itemRecord(remote, 2)], meta)).toEqual({ items: [remote], conflicts: 0 });
+  });
+
+  it("keeps a local edit and adds the remote one as a copy with a stable id", () => {
+    const mine = makeItem("a", { text: "mine", updatedAt: 4 });
+    const remote = makeItem("a", { text: "remote", updatedAt: 5 });
+    const res = mergeItemRecords([mine], [itemRecord(remote, 2)], meta);
+    expect(res.conflicts).toBe(1);
+    expect(res.items).toEqual([{ ...remote, id: "a-r2", conflictOf: "a" }, mine]);
+  });
+
+  it("applies a remote delete unless the item was edited here", () => {
+    const deleted = itemRecord(null, 2, "a");
+    expect(mergeItemRecords([base], [deleted], meta).items).toEqual([]);
+    const mine = makeItem("a", { text: "mine", updatedAt: 4 });
+    expect(mergeItemRecords([mine], [deleted], meta).items).toEqual([mine]);
+  });
+
+  it("skips records this device already has and ones it can't read", () => {
+    const local = [base];
+    expect(mergeItemRecords(local, [itemRecord(makeItem("a", { text: "old" }), 1)], meta).items).toBe(local);
+    expect(mergeItemRecords(local, [{ kind: "item", id: "a", rev: 2, data: { id: "a" } }], meta).items).toEqual(local);
+  });
+});
+
+describe("mergeCategoryRecords", () => {
+  it("applies remote categories in their position", () => {
+    const meta = pushAll([], [home]);
+    const records: SyncRecord[] = [
+      { kind: "category", id: "work", rev: 2, data: { id: "work", label: "Work", position: 0 } },
+      { kind: "category", id: "home", rev: 2, data: { ...home, position: 1 } },
+    ];
+    expect(mergeCategoryRecords([home], records, meta)).toEqual([{ id: "work", label: "Work" }, home]);
+  });
+
+  it("merges a category edited on both devices field by field", () => {
+    const meta = pushAll([], [home]);
+    const renamed = { ...home, label: "House" };
+    const remote = { kind: "category" as const, id: "home", rev: 2, data: { ...home, color: "green", position: 0 } };
+    expect(mergeCategoryRecords([renamed], [remote], meta)).toEqual([{ ...renamed, color: "green" }]);
+  });
+
+  it("keeps the local value when both devices changed the same field, and pushes it back", () => {
+    const meta = pushAll([], [home]);
+    const renamed = { ...home, label: "House" };
+    const remote = { kind: "category" as const, id: "home", rev: 2, data: { id: "home", label: "Flat", icon: "house", position: 0 } };
+    const merged = mergeCategoryRecords([renamed], [remote], meta);
+    expect(merged).toEqual([{ ...renamed, icon: "house" }]);
+    const pulled = applyPulled(meta, { seq: 2, records: [remote] });
+    expect(pendingChanges([], merged, pulled)).toEqual([{ kind: "category", id: "home", baseRev: 2, data: { ...merged[0], position: 0 } }]);
+  });
+});
+
+describe("applyPulled", () => {
+  it("advances the cursor and records what the server has", () => {
+    const meta = applyPulled(emptyMeta(), { seq: 7, records: [itemRecord(makeItem("a"), 7)] });
+    expect(meta.cursor).toBe(7);
+    expect(pendingChanges([makeItem("a")], [], meta)).toEqual([]);
+  });
+});
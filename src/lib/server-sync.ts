@@ -0,0 +1,237 @@
+import type { Category, Item } from "@/lib/types";
+import { parseCategory, parseItem } from "@/lib/schema";
+import { dropRedundantCopies, mergeFields } from "@/lib/sync";
+
+// ---- Server Sync ----
+// Optional sync with a self-hosted server (server/sync-server.js). Local
+// storage stays the source of truth: the app works the same without a server,
+// and sync only exchanges records. Every item and category is a record with a
+// server revision. `meta` remembers, per record, the last revision this device
+// has seen and a hash of its content (plus the content itself for categories,
+// which are merged field by field); a local record whose hash differs is
+// unsynced and gets pushed with that revision as its base. The server rejects
+// a push whose base is stale, and the newer version arrives with the next pull.
+export type SyncKind = "item" | "category";
+
+export type SyncRecord = { kind: SyncKind; id: string; rev: number; data: unknown | null };
+export type PushChange = { kind: SyncKind; id: string; baseRev: number; data: unknown | null };
+export type PullResponse = { seq: number; records: SyncRecord[] };
+export type PushResponse = { seq: number; accepted: { kind: SyncKind; id: string; rev: number }[]; conflicts: SyncRecord[] };
+
+export type SyncConfig = { enabled: boolean; url: string; token: string };
+
+type Entry = { rev: number; hash: string | null; data?: unknown }; // hash null: deleted on the server
+
+export type SyncMeta = {
+  cursor: number; // highest server revision pulled
+  records: Record<string, Entry>;
+};
+
+export type SyncState = { config: SyncConfig; meta: SyncMeta };
+
+const LS_SYNC_KEY = "brain_dump_server_sync";
+
+export const emptyMeta = (): SyncMeta => ({ cursor: 0, records: {} });
+
+const DEFAULT_STATE: SyncState = { config: { enabled: false, url: "", token: "" }, meta: emptyMeta() };
+
+// Device-specific, so kept out of the persisted document (and its exports).
+export function loadSyncState(): SyncState {
+  try {
+    const raw = JSON.parse(localStorage.getItem(LS_SYNC_KEY) ?? "null");
+    if (!raw?.config || typeof raw.meta?.cursor !== "number" || typeof raw.meta.records !== "object") return DEFAULT_STATE;
+    return {
+      config: { enabled: raw.config.enabled === true, url: String(raw.config.url ?? ""), token: String(raw.config.token ?? "") },
+      meta: raw.meta,
+    };
+  } catch {
+    return DEFAULT_STATE;
+  }
+}
+
+export const saveSyncState = (state: SyncState) => localStorage.setItem(LS_SYNC_KEY, JSON.stringify(state));
+
+// ---- Records ----
+const keyOf = (kind: SyncKind, id: string) => `${kind}:${id}`;
+
+// Key order differs between objects built by spreads and by the schema, so
+// the hash is taken over a canonical form.
+function canonical(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonical).join(",")}]`;
+  if (v && typeof v === "object") {
+    const entries = Object.entries(v).filter(([, x]) => x !== undefined).sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, x]) => `${JSON.stringify(k)}:${canonical(x)}`).join(",")}}`;
+  }
+  return JSON.stringify(v);
+}
+
+function hashOf(v: unknown) {
+  const text = canonical(v);
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = (Math.imul(h, 33) + text.charCodeAt(i)) | 0;
+  return `${(h >>> 0).toString(36)}.${text.length}`;
+}
+
+// Category order travels with each category.
+const categoryData = (c: Category, position: number) => ({ ...c, position });
+
+/** Local records that differ from what the server was last known to have. */
+export function pendingChanges(items: Item[], categories: Category[], meta: SyncMeta): PushChange[] {
+  const changes: PushChange[] = [];
+  const present = new Set<string>();
+  const check = (kind: SyncKind, id: string, data: unknown) => {
+    const key = keyOf(kind, id);
+    present.add(key);
+    const entry = meta.records[key];
+    if (entry?.hash !== hashOf(data)) changes.push({ kind, id, baseRev: entry?.rev ?? 0, data });
+  };
+  items.forEach((i) => check("item", i.id, i));
+  categories.forEach((c, position) => check("category", c.id, categoryData(c, position)));
+  Object.entries(meta.records).forEach(([key, entry]) => {
+    if (present.has(key) || entry.hash === null) return;
+    const [kind, ...id] = key.split(":");
+    changes.push({ kind: kind as SyncKind, id: id.join(":"), baseRev: entry.rev, data: null });
+  });
+  return changes;
+}
+
+// A category's content is kept as the base for merging the next remote edit.
+const entryOf = (kind: SyncKind, rev: number, data: unknown | null): Entry =>
+  data === null ? { rev, hash: null } : { rev, hash: hashOf(data), ...(kind === "category" ? { data } : {}) };
+
+// Rejected changes are left alone: the server's newer version comes with the next pull.
+export function applyPushResult(meta: SyncMeta, changes: PushChange[], res: PushResponse): SyncMeta {
+  const sent = new Map(changes.map((c) => [keyOf(c.kind, c.id), c]));
+  const records = { ...meta.records };
+  res.accepted.forEach(({ kind, id, rev }) => {
+    const change = sent.get(keyOf(kind, id));
+    if (change) records[keyOf(kind, id)] = entryOf(kind, rev, change.data);
+  });
+  return { ...meta, records };
+}
+
+// null for a delete, undefined for data this version can't read (which is
+// then treated as missing, so the local record overwrites it).
+const parseRecord = (r: SyncRecord) => {
+  if (r.data === null) return null;
+  const parsed = r.kind === "item" ? parseItem(r.data) : parseCategory(r.data);
+  if (!parsed.ok) return undefined;
+  return r.kind === "item" ? parsed.value : { ...parsed.value, position: (r.data as { position?: unknown }).position };
+};
+
+// What the server has now, whatever this device does with it.
+export function applyPulled(meta: SyncMeta, res: PullResponse): SyncMeta {
+  const records = { ...meta.records };
+  res.records.forEach((r) => {
+    records[keyOf(r.kind, r.id)] = entryOf(r.kind, r.rev, parseRecord(r) ?? null);
+  });
+  return { cursor: res.seq, records };
+}
+
+// A pulled record replaces the local one unless that has unsynced changes.
+// Then, like tab sync, an edit beats a delete from either side, and two edits
+// keep the local item plus the remote version as a `conflictOf` copy. The
+// copy's id comes from the revision, so every device (and a repeated merge)
+// makes the same one.
+type Side<T> = { local: T | undefined; remote: T | null; dirty: boolean };
+
+function resolve<T>({ local, remote, dirty }: Side<T>, same: boolean): "remote" | "local" | "copy" {
+  if (!dirty || same) return "remote";
+  if (remote === null) return "local";
+  if (local === undefined) return "remote";
+  return "copy";
+}
+
+function sides(records: SyncRecord[], kind: SyncKind, meta: SyncMeta) {
+  // Only records newer than what's already known; the rest are this device's own pushes.
+  return records.filter((r) => r.kind === kind && r.rev > (meta.records[keyOf(kind, r.id)]?.rev ?? 0));
+}
+
+const isDirty = (data: unknown | undefined, entry: Entry | undefined) =>
+  data === undefined ? entry !== undefined && entry.hash !== null : entry?.hash !== hashOf(data);
+
+/** Merges pulled item records into `local`; `meta` is the state before the pull. */
+export function mergeItemRecords(local: Item[], records: SyncRecord[], meta: SyncMeta): { items: Item[]; conflicts: number } {
+  const incoming = sides(records, "item", meta);
+  if (!incoming.length) return { items: local, conflicts: 0 };
+  const byId = new Map(local.map((i) => [i.id, i]));
+  const added: Item[] = [];
+  let conflicts = 0;
+
+  incoming.forEach((r) => {
+    const mine = byId.get(r.id);
+    const remote = parseRecord(r) as Item | null | undefined;
+    if (remote === undefined) return;
+    const dirty = isDirty(mine, meta.records[keyOf("item", r.id)]);
+    const same = mine !== undefined && remote !== null && hashOf(mine) === hashOf(remote);
+    const outcome = resolve({ local: mine, remote, dirty }, same);
+    if (outcome === "remote" && !same) {
+      if (remote === null) byId.delete(r.id);
+      else if (mine) byId.set(r.id, remote);
+      else added.push(remote);
+    } else if (outcome === "copy") {
+      conflicts++;
+      added.push({ ...remote!, id: `${r.id}-r${r.rev}`, conflictOf: r.id });
+    }
+  });
+
+  const kept = local.filter((i) => byId.has(i.id)).map((i) => byId.get(i.id)!);
+  const fresh = added.filter((i) => !byId.has(i.id));
+  return { items: dropRedundantCopies([...fresh, ...kept]), conflicts };
+}
+
+/**
+ * Merges pulled category records. When both sides edited a category, the
+ * remote fields this device didn't change since the last sync are taken (see
+ * `mergeFields`) and the result is pushed back; a category synced before its
+ * content was kept has no base, so the local version wins as a whole.
+ */
+export function mergeCategoryRecords(local: Category[], records: SyncRecord[], meta: SyncMeta): Category[] {
+  const incoming = sides(records, "category", meta);
+  if (!incoming.length) return local;
+  const positions = new Map(local.map((c, i) => [c.id, i]));
+  const byId = new Map(local.map((c) => [c.id, c]));
+  let changed = false;
+
+  incoming.forEach((r) => {
+    const mine = byId.get(r.id);
+    const remote = parseRecord(r) as (Category & { position?: unknown }) | null | undefined;
+    if (remote === undefined) return;
+    const entry = meta.records[keyOf("category", r.id)];
+    const mineData = mine && categoryData(mine, positions.get(r.id)!);
+    const dirty = isDirty(mineData, entry);
+    const same = mineData !== undefined && remote !== null && hashOf(mineData) === hashOf(remote);
+    const outcome = resolve({ local: mine, remote, dirty }, same);
+    if (same || outcome === "local" || (outcome === "copy" && entry?.data === undefined)) return;
+    changed = true;
+    if (remote === null) {
+      byId.delete(r.id);
+      return;
+    }
+    const merged = outcome === "copy" ? mergeFields(mineData!, entry!.data as typeof mineData & object, remote) : remote;
+    const { position, ...category } = merged;
+    byId.set(r.id, category);
+    if (typeof position === "number") positions.set(r.id, position);
+  });
+
+  if (!changed) return local;
+  return [...byId.values()].sort((a, b) => (positions.get(a.id) ?? Infinity) - (positions.get(b.id) ?? Infinity));
+}
+
+// ---- Transport ----
+export function createTransport({ url, token }: Pick<SyncConfig, "url" | "token">) {
+  const base = url.trim().replace(/\/+$/, "");
+  const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    const res = await fetch(`${base}${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json", ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    });
+    if (res.status === 401) throw new Error("The sync server rejected the token.");
+    if (!res.ok) throw new Error(`The sync server answered ${res.status}.`);
+    return (await res.json()) as T;
+  };
+  return {
+    pull: (since: number) => request<PullResponse>(`/changes?since=${since}`),
+    push: (changes: PushChange[]) => request<PushResponse>("/changes", { method: "POST", body: JSON.stringify({ changes }) }),
+  };
+}
@@ -0,0 +1,22 @@
+// ---- Share Target ----
+// The manifest's share_target opens the app with these query params (see
+// public/manifest.webmanifest). Apps fill them in inconsistently: some put
+// the link in `text`, some send only a title, so whatever is there is joined.
+const PARAMS = ["share_title", "share_text", "share_url"] as const;
+
+export function readShare(search: string): string | null {
+  const params = new URLSearchParams(search);
+  if (!PARAMS.some((p) => params.has(p))) return null;
+  const [title, text, url] = PARAMS.map((p) => params.get(p)?.trim() ?? "");
+  const parts = [title, text];
+  if (url && !text.includes(url)) parts.push(url);
+  const joined = parts.filter((p, i) => p && parts.indexOf(p) === i).join(" – ");
+  return joined || null;
+}
+
+/** Drops the share params so a reload doesn't add the item again. */
+export function clearShare() {
+  const url = new URL(window.location.href);
+  PARAMS.forEach((p) => url.searchParams.delete(p));
+  window.history.replaceState(null, "", url);
+}
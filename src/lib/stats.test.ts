@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORKFLOW } from "@/lib/types";
+import type { Category, WorkflowStatus } from "@/lib/types";
+import { computeStats } from "@/lib/stats";
+import { workflowResolver } from "@/lib/workflow";
+import { makeItem } from "@/test/fixtures";
+
+const board: WorkflowStatus[] = [
+  { id: "todo", label: "To do", kind: "backlog" },
+  { id: "doing", label: "Doing", kind: "in_progress" },
+  { id: "review", label: "Review", kind: "in_progress" },
+  { id: "done", label: "Done", kind: "done" },
+];
+const categories: Category[] = [
+  { id: "home", label: "Home" },
+  { id: "work", label: "Work", workflow: board },
+];
+const workflowOf = workflowResolver(categories, DEFAULT_WORKFLOW);
+
+const counts = (columns: { column: WorkflowStatus; count: number }[]) =>
+  Object.fromEntries(columns.map((c) => [c.column.id, c.count]));
+
+describe("computeStats", () => {
+  it("counts items per category in the board column they show in", () => {
+    const stats = computeStats(
+      [
+        makeItem("a", { term: "short", priority: 3 }),
+        makeItem("b", { category: "work", status: "in_progress", stage: "review", term: "long", priority: 5 }),
+        makeItem("c", { category: "work", status: "in_progress" }),
+        makeItem("d", { category: "work", status: "blocked", priority: 1 }),
+      ],
+      categories,
+      workflowOf,
+    );
+    const [home, work] = stats.categories;
+    expect(home.total).toBe(1);
+    expect(home.terms).toEqual({ short: 1, medium: 0, long: 0, none: 0 });
+    expect(counts(home.columns)).toEqual({ backlog: 1, in_progress: 0, blocked: 0, done: 0 });
+    // No "blocked" column on this board, so that item shows in the first one.
+    expect(counts(work.columns)).toEqual({ todo: 1, doing: 1, review: 1, done: 0 });
+    expect(stats.priorities).toEqual([1, 1, 0, 1, 0, 1]);
+  });
+
+  it("adds categories that only items still refer to", () => {
+    const stats = computeStats([makeItem("a", { category: "gone" })], categories, workflowOf);
+    expect(stats.categories.map((s) => [s.category.label, s.total])).toEqual([["Home", 0], ["Work", 0], ["gone", 1]]);
+  });
+
+  it("lists the oldest untriaged items and blocked items by priority", () => {
+    const items = [
+      makeItem("new", { createdAt: 3 }),
+      makeItem("old", { createdAt: 1, term: "short" }),
+      makeItem("sorted", { createdAt: 0, term: "short", priority: 2 }),
+      makeItem("mid", { createdAt: 2, priority: 1 }),
+      makeItem("low", { term: "short", priority: 1, status: "blocked" }),
+      makeItem("high", { term: "short", priority: 4, status: "blocked" }),
+    ];
+    const stats = computeStats(items, categories, workflowOf, 2);
+    expect(stats.untriaged.map((i) => i.id)).toEqual(["old", "mid"]);
+    expect(stats.untriagedCount).toBe(3);
+    expect(stats.blocked.map((i) => i.id)).toEqual(["high", "low"]);
+  });
+});
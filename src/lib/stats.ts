@@ -0,0 +1,57 @@
+import { TERMS } from "@/lib/types";
+import type { Category, Item, Term, WorkflowStatus } from "@/lib/types";
+import { needsTriage } from "@/lib/triage";
+import { columnOf } from "@/lib/workflow";
+import type { WorkflowOf } from "@/lib/workflow";
+
+// ---- Dashboard Statistics ----
+// Unset fields are counted the way search reads them: no status is backlog and
+// no priority is 0, so a tile's count matches the list it drills into. Items
+// are counted in the board column they show in, with the category's columns.
+export type CategoryStats = {
+  category: Category;
+  total: number;
+  terms: Record<Term | "none", number>;
+  columns: { column: WorkflowStatus; count: number }[];
+};
+
+export type Stats = {
+  categories: CategoryStats[];
+  priorities: number[]; // index = priority 0–5
+  untriaged: Item[]; // oldest first
+  untriagedCount: number;
+  blocked: Item[];
+};
+
+const zeros = <K extends string>(keys: readonly K[]) => Object.fromEntries(keys.map((k) => [k, 0])) as Record<K, number>;
+
+export function computeStats(items: Item[], categories: Category[], workflowOf: WorkflowOf, oldest = 5): Stats {
+  const known = new Set(categories.map((c) => c.id));
+  const orphans = [...new Set(items.filter((i) => !known.has(i.category)).map((i) => i.category))];
+  const perCategory = [...categories, ...orphans.map((id) => ({ id, label: id }))].map((category) => ({
+    category,
+    total: 0,
+    terms: zeros([...TERMS, "none"] as const),
+    columns: workflowOf(category.id).map((column) => ({ column, count: 0 })),
+  }));
+  const byId = new Map(perCategory.map((s) => [s.category.id, s]));
+  const priorities = [0, 0, 0, 0, 0, 0];
+
+  items.forEach((it) => {
+    const s = byId.get(it.category)!;
+    s.total++;
+    s.terms[it.term ?? "none"]++;
+    const column = columnOf(it, workflowOf(it.category));
+    s.columns.find((c) => c.column === column)!.count++;
+    priorities[it.priority ?? 0]++;
+  });
+
+  const untriaged = items.filter(needsTriage).sort((a, b) => a.createdAt - b.createdAt);
+  return {
+    categories: perCategory,
+    priorities,
+    untriaged: untriaged.slice(0, oldest),
+    untriagedCount: untriaged.length,
+    blocked: items.filter((i) => i.status === "blocked").sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0)),
+  };
+}
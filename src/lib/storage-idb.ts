@@ -0,0 +1,98 @@
+import { migrateDocument } from "@/lib/schema";
+import type { LoadResult, PersistedDoc } from "@/lib/schema";
+import type { ItemChanges, StorageAdapter, VaultStore } from "@/lib/storage";
+
+// ---- IndexedDB Layout ----
+// `items` holds one record per item keyed by id, so a change to one item only
+// rewrites that record. Everything else in the document lives in a single
+// `meta` record. With encryption on, both are empty and the sealed document
+// is the `vault` record in `meta`.
+const DB_NAME = "brain_dump";
+const DB_VERSION = 1;
+const ITEMS = "items";
+const META = "meta";
+const META_KEY = "doc";
+const VAULT_KEY = "vault";
+
+type Meta = Omit<PersistedDoc, "items">;
+
+const request = <T>(r: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+
+const completion = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const r = indexedDB.open(DB_NAME, DB_VERSION);
+    r.onupgradeneeded = () => {
+      const db = r.result;
+      if (!db.objectStoreNames.contains(ITEMS)) db.createObjectStore(ITEMS, { keyPath: "id" });
+      if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+    };
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+    r.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+  });
+}
+
+function toMeta(doc: PersistedDoc): Meta {
+  const meta: Partial<PersistedDoc> = { ...doc };
+  delete meta.items;
+  return meta as Meta;
+}
+
+export async function createIndexedDBAdapter(): Promise<StorageAdapter> {
+  const db = await openDB();
+
+  const load = async (): Promise<LoadResult | null> => {
+    const tx = db.transaction([ITEMS, META], "readonly");
+    const [meta, items] = await Promise.all([
+      request(tx.objectStore(META).get(META_KEY) as IDBRequest<Meta | undefined>),
+      request(tx.objectStore(ITEMS).getAll()),
+    ]);
+    if (!meta && items.length === 0) return null;
+    // Records come back in key order; restore newest-first like the in-memory list.
+    items.sort((a, b) => (b?.createdAt ?? 0) - (a?.createdAt ?? 0));
+    return migrateDocument({ ...(meta ?? { version: 0 }), items });
+  };
+
+  const save = async (doc: PersistedDoc, changes: ItemChanges) => {
+    const tx = db.transaction([ITEMS, META], "readwrite");
+    const store = tx.objectStore(ITEMS);
+    changes.put.forEach((it) => store.put(it));
+    changes.remove.forEach((id) => store.delete(id));
+    if (changes.meta) tx.objectStore(META).put(toMeta(doc), META_KEY);
+    await completion(tx);
+  };
+
+  const clear = async () => {
+    const tx = db.transaction([ITEMS, META], "readwrite");
+    tx.objectStore(ITEMS).clear();
+    tx.objectStore(META).delete(META_KEY); // leaves the vault alone
+    await completion(tx);
+  };
+
+  return { name: "IndexedDB", load, save, clear };
+}
+
+export async function createIndexedDBVaultStore(): Promise<VaultStore> {
+  const db = await openDB();
+  const write = async (store: (s: IDBObjectStore) => void) => {
+    const tx = db.transaction(META, "readwrite");
+    store(tx.objectStore(META));
+    await completion(tx);
+  };
+  return {
+    read: async () => (await request(db.transaction(META, "readonly").objectStore(META).get(VAULT_KEY) as IDBRequest<string | undefined>)) ?? null,
+    write: (text) => write((s) => s.put(text, VAULT_KEY)),
+    remove: () => write((s) => s.delete(VAULT_KEY)),
+  };
+}
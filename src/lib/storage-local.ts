@@ -0,0 +1,74 @@
+import { emptyDocument, migrateDocument, quarantined } from "@/lib/schema";
+import type { LoadResult, PersistedDoc, QuarantinedRecord } from "@/lib/schema";
+import type { StorageAdapter, VaultStore } from "@/lib/storage";
+
+// ---- Storage Keys ----
+const LS_DOC_KEY = "brain_dump_doc";
+const LS_VAULT_KEY = "brain_dump_vault";
+// Pre-schema keys; read once and folded into the document on first load.
+const LS_KEY = "brain_dump_mvp_v1";
+const LS_CATS_KEY = "brain_dump_mvp_categories";
+
+type Read = { raw: unknown } | { error: string; text: string };
+
+function readJSON(key: string): Read | null {
+  const text = localStorage.getItem(key);
+  if (text === null) return null;
+  try {
+    return { raw: JSON.parse(text) };
+  } catch {
+    return { error: `${key} is not valid JSON`, text };
+  }
+}
+
+function loadDocument(): LoadResult | null {
+  const stored = readJSON(LS_DOC_KEY);
+  if (stored) {
+    if ("raw" in stored) return migrateDocument(stored.raw);
+    const corrupt = quarantined("document", stored.text, stored.error);
+    return { doc: { ...emptyDocument(), quarantine: [corrupt] }, recovered: [corrupt] };
+  }
+
+  // No document yet: assemble a v0 document from the legacy keys.
+  const legacy: Record<string, unknown> = { version: 0 };
+  const recovered: QuarantinedRecord[] = [];
+  for (const [field, key] of [["items", LS_KEY], ["categories", LS_CATS_KEY]] as const) {
+    const read = readJSON(key);
+    if (!read) continue;
+    if ("raw" in read) legacy[field] = read.raw;
+    else recovered.push(quarantined("document", read.text, read.error));
+  }
+  if (Object.keys(legacy).length === 1 && recovered.length === 0) return null;
+  const res = migrateDocument(legacy);
+  return {
+    doc: { ...res.doc, quarantine: [...recovered, ...res.doc.quarantine] },
+    recovered: [...recovered, ...res.recovered],
+  };
+}
+
+function saveDocument(doc: PersistedDoc) {
+  localStorage.setItem(LS_DOC_KEY, JSON.stringify(doc));
+  // The document now holds everything the legacy keys did.
+  localStorage.removeItem(LS_KEY);
+  localStorage.removeItem(LS_CATS_KEY);
+}
+
+function clearDocument() {
+  localStorage.removeItem(LS_DOC_KEY);
+  localStorage.removeItem(LS_KEY);
+  localStorage.removeItem(LS_CATS_KEY);
+}
+
+// Whole-document adapter: every save rewrites the single localStorage entry.
+export const localStorageAdapter: StorageAdapter = {
+  name: "localStorage",
+  load: async () => loadDocument(),
+  save: async (doc) => saveDocument(doc),
+  clear: async () => clearDocument(),
+};
+
+export const localVaultStore: VaultStore = {
+  read: async () => localStorage.getItem(LS_VAULT_KEY),
+  write: async (text) => localStorage.setItem(LS_VAULT_KEY, text),
+  remove: async () => localStorage.removeItem(LS_VAULT_KEY),
+};
@@ -0,0 +1,51 @@
+import { migrateDocument } from "@/lib/schema";
+import type { LoadResult } from "@/lib/schema";
+import type { StorageAdapter, VaultStore } from "@/lib/storage";
+import { isEnvelope, openEnvelope, seal, unseal } from "@/lib/crypto";
+import type { Keyring } from "@/lib/crypto";
+
+// ---- Encrypted Storage ----
+// Whole-document adapter over a VaultStore: every save seals the full
+// document with the unlocked key. Only used while encryption is on; the plain
+// adapter is emptied when it's switched on and refilled when it's switched off.
+export function createVaultAdapter(store: VaultStore, keyring: Keyring): StorageAdapter {
+  return {
+    name: "Encrypted",
+    load: async () => {
+      const text = await store.read();
+      if (!text) return null;
+      const env = JSON.parse(text);
+      if (!isEnvelope(env)) throw new Error("The encrypted data is damaged.");
+      return migrateDocument(JSON.parse(await unseal(keyring.key, env)));
+    },
+    save: async (doc) => store.write(JSON.stringify(await seal(keyring, JSON.stringify(doc)))),
+    clear: () => store.remove(),
+  };
+}
+
+/** Opens the sealed document; rejects with "Wrong passphrase." if it doesn't fit. */
+export async function unlockVault(sealed: string, passphrase: string): Promise<{ keyring: Keyring; result: LoadResult }> {
+  const env = JSON.parse(sealed);
+  if (!isEnvelope(env)) throw new Error("The encrypted data is damaged.");
+  const { keyring, plaintext } = await openEnvelope(passphrase, env);
+  return { keyring, result: migrateDocument(JSON.parse(plaintext)) };
+}
+
+// ---- Lock Channel ----
+// Switching encryption on or off, or changing the passphrase, makes every other
+// open tab reload, so none keeps writing with the old key or in plain text.
+const CHANNEL = "brain_dump_vault";
+
+export function announceVaultChange() {
+  if (typeof BroadcastChannel === "undefined") return;
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.postMessage("changed");
+  channel.close();
+}
+
+export function onVaultChange(callback: () => void) {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = callback;
+  return () => channel.close();
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { emptyDocument } from "@/lib/schema";
+import type { PersistedDoc } from "@/lib/schema";
+import { createDocumentWriter } from "@/lib/storage";
+import type { ItemChanges, StorageAdapter } from "@/lib/storage";
+import { makeItem } from "@/test/fixtures";
+
+// Records every save instead of writing anywhere.
+function recordingAdapter() {
+  const saves: ItemChanges[] = [];
+  const adapter: StorageAdapter = {
+    name: "test",
+    load: async () => null,
+    save: async (_doc, changes) => void saves.push(changes),
+    clear: async () => {},
+  };
+  return { adapter, saves };
+}
+
+describe("createDocumentWriter", () => {
+  const saved: PersistedDoc = { ...emptyDocument(), items: [makeItem("a")] };
+
+  it("saves only the changed items when settings are rebuilt but equal", async () => {
+    const { adapter, saves } = recordingAdapter();
+    const writer = createDocumentWriter(adapter, saved, (e) => { throw e; });
+    const edited = makeItem("a", { text: "edited", updatedAt: 1 });
+    writer.schedule({ ...saved, items: [edited], settings: { ...saved.settings } });
+    await writer.flush();
+    expect(saves).toEqual([{ put: [edited], remove: [], meta: false }]);
+  });
+
+  it("rewrites the meta record when a setting changes", async () => {
+    const { adapter, saves } = recordingAdapter();
+    const writer = createDocumentWriter(adapter, saved, (e) => { throw e; });
+    writer.schedule({ ...saved, settings: { ...saved.settings, kanban: !saved.settings.kanban } });
+    await writer.flush();
+    expect(saves).toEqual([{ put: [], remove: [], meta: true }]);
+  });
+
+  it("coalesces rapid changes into one save", async () => {
+    const { adapter, saves } = recordingAdapter();
+    const writer = createDocumentWriter(adapter, saved, (e) => { throw e; });
+    writer.schedule({ ...saved, items: [makeItem("a", { priority: 2 })] });
+    writer.schedule({ ...saved, items: [] });
+    await writer.flush();
+    expect(saves).toEqual([{ put: [], remove: ["a"], meta: false }]);
+  });
+});
@@ -0,0 +1,148 @@
+import type { LoadResult, PersistedDoc } from "@/lib/schema";
+import type { Item } from "@/lib/types";
+import { localStorageAdapter, localVaultStore } from "@/lib/storage-local";
+import { createIndexedDBAdapter, createIndexedDBVaultStore } from "@/lib/storage-idb";
+
+// ---- Storage Adapters ----
+// Adapters only move documents in and out of a backend. Migration and
+// validation happen in `migrateDocument`, which every adapter's `load` runs.
+export type ItemChanges = {
+  put: Item[]; // new or changed items
+  remove: string[]; // ids of deleted items
+  meta: boolean; // categories, settings or quarantine changed
+};
+
+export interface StorageAdapter {
+  readonly name: string;
+  /** Resolves to null when the backend holds no data yet. */
+  load(): Promise<LoadResult | null>;
+  /** `changes` describes how `doc` differs from the last saved document. */
+  save(doc: PersistedDoc, changes: ItemChanges): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** Where the encrypted document is kept: one opaque string, next to the plain data. */
+export interface VaultStore {
+  read(): Promise<string | null>;
+  write(text: string): Promise<void>;
+  remove(): Promise<void>;
+}
+
+export type OpenedStorage = {
+  adapter: StorageAdapter; // the plain adapter, used while encryption is off
+  vault: VaultStore;
+  result: LoadResult | null;
+  sealed: string | null; // the encrypted document, if encryption is on; `result` is then null
+};
+
+// Items are immutable in app state, so a changed item is a new object.
+export function diffItems(prev: Item[], next: Item[]): Pick<ItemChanges, "put" | "remove"> {
+  const before = new Map(prev.map((i) => [i.id, i]));
+  const put = next.filter((i) => before.get(i.id) !== i);
+  const ids = new Set(next.map((i) => i.id));
+  const remove = prev.filter((i) => !ids.has(i.id)).map((i) => i.id);
+  return { put, remove };
+}
+
+// Settings are a handful of small fields, so they're compared by value: a
+// caller that rebuilds the object shouldn't rewrite the whole meta record.
+const metaChanged = (a: PersistedDoc, b: PersistedDoc) =>
+  a.version !== b.version ||
+  a.categories !== b.categories ||
+  a.quarantine !== b.quarantine ||
+  JSON.stringify(a.settings) !== JSON.stringify(b.settings);
+
+/**
+ * Picks IndexedDB when available, falling back to localStorage. The first time
+ * IndexedDB is used, whatever localStorage holds (including the pre-schema
+ * `brain_dump_mvp_v1` keys) is copied over and then removed from localStorage.
+ * With encryption on, nothing is loaded until the vault is unlocked.
+ */
+export async function openStorage(): Promise<OpenedStorage> {
+  let adapter: StorageAdapter;
+  let vault: VaultStore;
+  try {
+    if (typeof indexedDB === "undefined") throw new Error("IndexedDB unavailable");
+    adapter = await createIndexedDBAdapter();
+    vault = await createIndexedDBVaultStore();
+  } catch {
+    const sealed = await localVaultStore.read();
+    return { adapter: localStorageAdapter, vault: localVaultStore, sealed, result: sealed ? null : await localStorageAdapter.load() };
+  }
+
+  const sealed = await vault.read();
+  if (sealed) return { adapter, vault, sealed, result: null };
+
+  const result = await adapter.load();
+  if (result) return { adapter, vault, sealed, result };
+
+  const local = await localStorageAdapter.load();
+  if (local) {
+    await adapter.save(local.doc, { put: local.doc.items, remove: [], meta: true });
+    await localStorageAdapter.clear();
+  }
+  return { adapter, vault, sealed, result: local };
+}
+
+export type DocumentWriter = {
+  schedule(doc: PersistedDoc): void;
+  flush(): Promise<void>;
+  clear(): Promise<void>;
+  /** Drops a pending save and waits for the ones already running, e.g. before switching adapters. */
+  cancel(): Promise<void>;
+};
+
+/**
+ * Coalesces rapid state changes (e.g. dragging the priority slider) into one
+ * save every `delay` ms, handing the adapter only what changed since the last
+ * write. Saves run one at a time, in order.
+ */
+export function createDocumentWriter(
+  adapter: StorageAdapter,
+  saved: PersistedDoc | null,
+  onError: (e: unknown) => void,
+  delay = 250
+): DocumentWriter {
+  let pending: PersistedDoc | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let queue = Promise.resolve();
+
+  const flush = () => {
+    clearTimeout(timer);
+    if (pending) {
+      const doc = pending;
+      const prev = saved;
+      pending = null;
+      saved = doc;
+      const changes: ItemChanges = {
+        ...diffItems(prev?.items ?? [], doc.items),
+        meta: !prev || metaChanged(prev, doc),
+      };
+      if (changes.put.length || changes.remove.length || changes.meta) {
+        queue = queue.then(() => adapter.save(doc, changes)).catch(onError);
+      }
+    }
+    return queue;
+  };
+
+  return {
+    schedule(doc) {
+      pending = doc;
+      clearTimeout(timer);
+      timer = setTimeout(flush, delay);
+    },
+    flush,
+    async clear() {
+      clearTimeout(timer);
+      pending = null;
+      saved = null;
+      queue = queue.then(() => adapter.clear()).catch(onError);
+      await queue;
+    },
+    async cancel() {
+      clearTimeout(timer);
+      pending = null;
+      await queue;
+    },
+  };
+}
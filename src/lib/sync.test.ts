@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_SETTINGS } from "@/lib/types";
+import type { Category, Item } from "@/lib/types";
+import { dropRedundantCopies, mergeCategories, mergeRemote, mergeSettings, sameSharedSettings } from "@/lib/sync";
+import { makeItem } from "@/test/fixtures";
+
+const setup = (local: Item[], base: Item[]) => ({ local, synced: new Map(base.map((i) => [i.id, i])) });
+
+describe("mergeRemote", () => {
+  it("takes the remote version when this tab hasn't changed the item", () => {
+    const base = makeItem("a");
+    const remote = { ...base, text: "edited", updatedAt: 5 };
+    const { local, synced } = setup([base], [base]);
+    const res = mergeRemote(local, synced, { from: "t", put: [remote], remove: [] });
+    expect(res.items).toEqual([remote]);
+    expect(res.conflicts).toBe(0);
+    expect(synced.get("a")).toBe(remote);
+  });
+
+  it("keeps both versions when both tabs edited the same item", () => {
+    const base = makeItem("a");
+    const mine = { ...base, text: "mine", updatedAt: 3 };
+    const remote = { ...base, text: "theirs", updatedAt: 4 };
+    const { local, synced } = setup([mine], [base]);
+    const res = mergeRemote(local, synced, { from: "t", put: [remote], remove: [] });
+    expect(res.conflicts).toBe(1);
+    expect(res.items).toHaveLength(2);
+    expect(res.items.find((i) => i.conflictOf === "a")).toMatchObject({ text: "theirs" });
+    expect(res.items.find((i) => i.id === "a")).toBe(mine);
+  });
+
+  it("treats edits that end up the same as no conflict", () => {
+    const base = makeItem("a");
+    const mine = { ...base, text: "same", updatedAt: 3, rank: 1 };
+    const remote = { ...base, text: "same", updatedAt: 4 };
+    const res = mergeRemote([mine], new Map([["a", base]]), { from: "t", put: [remote], remove: [] });
+    expect(res.conflicts).toBe(0);
+    expect(res.items).toEqual([remote]);
+  });
+
+  it("adds new items and lets a local edit survive a remote delete", () => {
+    const base = [makeItem("a"), makeItem("b")];
+    const editedB = { ...base[1], text: "still here", updatedAt: 2 };
+    const { local, synced } = setup([base[0], editedB], base);
+    const res = mergeRemote(local, synced, { from: "t", put: [makeItem("c")], remove: ["a", "b"] });
+    expect(res.items.map((i) => i.id)).toEqual(["c", "b"]);
+    expect(synced.has("a")).toBe(false);
+  });
+});
+
+describe("dropRedundantCopies", () => {
+  it("drops a copy that matches its original or another copy", () => {
+    const original = makeItem("a", { text: "x" });
+    const same = makeItem("c1", { text: "x", conflictOf: "a" });
+    const other = makeItem("c2", { text: "y", conflictOf: "a" });
+    const twin = makeItem("c3", { text: "y", conflictOf: "a" });
+    expect(dropRedundantCopies([original, same, other, twin]).map((i) => i.id)).toEqual(["a", "c2"]);
+  });
+});
+
+describe("mergeCategories", () => {
+  const base: Category[] = [{ id: "home", label: "Home" }, { id: "work", label: "Work" }];
+
+  it("takes the remote list when this tab's is unchanged", () => {
+    const remote = [{ id: "home", label: "House" }];
+    expect(mergeCategories(base, base, remote)).toBe(remote);
+  });
+
+  it("keeps concurrent edits to different categories and fields", () => {
+    const local: Category[] = [{ id: "home", label: "House" }, { id: "work", label: "Work", color: "blue" }];
+    const remote: Category[] = [{ id: "home", label: "Home", icon: "house" }, { id: "work", label: "Job", hidden: true }];
+    expect(mergeCategories(local, base, remote)).toEqual([
+      { id: "home", label: "House", icon: "house" },
+      { id: "work", label: "Job", color: "blue", hidden: true },
+    ]);
+  });
+
+  it("keeps this tab's value when both changed the same field", () => {
+    const local: Category[] = [{ id: "home", label: "House" }, base[1]];
+    const remote: Category[] = [{ id: "home", label: "Flat" }, base[1]];
+    expect(mergeCategories(local, base, remote)[0].label).toBe("House");
+  });
+
+  it("adds new categories from both sides and applies deletes of unchanged ones", () => {
+    const local: Category[] = [...base, { id: "garden", label: "Garden" }];
+    const remote: Category[] = [{ id: "hobby", label: "Hobby" }, base[1]];
+    expect(mergeCategories(local, base, remote).map((c) => c.id)).toEqual(["work", "garden", "hobby"]);
+  });
+
+  it("follows the remote order unless this tab reordered", () => {
+    const local: Category[] = [{ ...base[0], color: "red" }, base[1]];
+    expect(mergeCategories(local, base, [base[1], base[0]]).map((c) => c.id)).toEqual(["work", "home"]);
+    expect(mergeCategories([base[1], base[0]], base, [{ ...base[0], color: "red" }, base[1]]).map((c) => c.id)).toEqual(["work", "home"]);
+  });
+});
+
+describe("mergeSettings", () => {
+  const base = DEFAULT_SETTINGS;
+
+  it("takes settings the other tab changed and keeps the ones changed here", () => {
+    const local = { ...base, kanban: true, trashDays: 7 };
+    const remote = { ...base, trashDays: 14, tagColors: { urgent: "red" as const } };
+    expect(mergeSettings(local, base, remote)).toEqual({ ...base, kanban: true, trashDays: 7, tagColors: { urgent: "red" } });
+  });
+
+  it("keeps this tab's search filter out of it", () => {
+    const remote = { ...base, filterTerm: "short" as const };
+    expect(mergeSettings(base, base, remote).filterTerm).toBe("all");
+    expect(sameSharedSettings(remote, base)).toBe(true);
+  });
+});
@@ -0,0 +1,145 @@
+import type { Category, Item, Settings } from "@/lib/types";
+import { uid } from "@/lib/utils";
+
+// ---- Cross-tab Sync ----
+// Tabs broadcast the items they changed, and their categories and settings
+// when those changed. Each tab remembers the last version of every item it
+// has exchanged (`synced`), which is the common base for a three-way merge:
+// whichever side still matches the base takes the other side's version. If
+// both changed, the local version stays and the incoming one is kept next to
+// it as a copy marked `conflictOf`, for the user to pick.
+export type TabChange = {
+  from: string; // sending tab
+  put: Item[];
+  remove: string[];
+  categories?: Category[];
+  settings?: Settings;
+};
+
+export type MergeResult = {
+  items: Item[];
+  categories?: Category[];
+  conflicts: number;
+};
+
+const CHANNEL = "brain_dump_sync";
+
+// Content equality, ignoring when it was written, board position and the activity log.
+const IGNORED = new Set(["updatedAt", "rank", "activity"]);
+
+function sameContent(a: Item, b: Item) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Item>;
+  return [...keys].every((k) => IGNORED.has(k) || JSON.stringify(a[k]) === JSON.stringify(b[k]));
+}
+
+// When both tabs flag the same clash, the copies can end up matching the
+// original or each other once the versions cross; those add nothing.
+export function dropRedundantCopies(items: Item[]): Item[] {
+  const byId = new Map(items.map((i) => [i.id, i]));
+  const kept: Item[] = [];
+  items.forEach((it) => {
+    if (it.conflictOf) {
+      const asOriginal = { ...it, id: it.conflictOf, conflictOf: undefined };
+      const original = byId.get(it.conflictOf);
+      if (original && sameContent(asOriginal, original)) return;
+      if (kept.some((k) => k.conflictOf === it.conflictOf && sameContent({ ...k, id: asOriginal.id, conflictOf: undefined }, asOriginal))) return;
+    }
+    kept.push(it);
+  });
+  return kept;
+}
+
+/** Applies a remote change to `local`; updates `synced` to the new common base. */
+export function mergeRemote(local: Item[], synced: Map<string, Item>, change: TabChange): MergeResult {
+  const byId = new Map(local.map((i) => [i.id, i]));
+  const added: Item[] = [];
+  let conflicts = 0;
+
+  change.put.forEach((remote) => {
+    const mine = byId.get(remote.id);
+    const base = synced.get(remote.id);
+    synced.set(remote.id, remote);
+    if (!mine) {
+      // New to this tab, or deleted here while edited there: the edit wins.
+      added.push(remote);
+    } else if (mine.updatedAt === base?.updatedAt || sameContent(mine, remote)) {
+      byId.set(remote.id, remote);
+    } else {
+      conflicts++;
+      added.push({ ...remote, id: uid(), conflictOf: remote.id });
+    }
+  });
+
+  change.remove.forEach((id) => {
+    const mine = byId.get(id);
+    const base = synced.get(id);
+    synced.delete(id);
+    // A local edit the other tab hadn't seen survives its delete.
+    if (mine && mine.updatedAt === base?.updatedAt) byId.delete(id);
+  });
+
+  const kept = local.filter((i) => byId.has(i.id)).map((i) => byId.get(i.id)!);
+  return { items: dropRedundantCopies([...added, ...kept]), categories: change.categories, conflicts };
+}
+
+const sameValue = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Field by field: the remote value wins unless this side changed that field.
+export function mergeFields<T extends object>(mine: T, base: T, remote: T): T {
+  const keys = new Set([...Object.keys(mine), ...Object.keys(base), ...Object.keys(remote)]) as Set<keyof T>;
+  const merged = {} as T;
+  keys.forEach((k) => {
+    const value = sameValue(mine[k], base[k]) ? remote[k] : mine[k];
+    if (value !== undefined) merged[k] = value;
+  });
+  return merged;
+}
+
+/**
+ * Three-way merge of category lists against the last exchanged one, per id
+ * and per field, so edits to different categories (or different fields of
+ * one) both survive. A category deleted on one side stays deleted unless the
+ * other side changed it. The order follows whichever side reordered.
+ */
+export function mergeCategories(local: Category[], synced: Category[], remote: Category[]): Category[] {
+  if (local === synced) return remote;
+  const base = new Map(synced.map((c) => [c.id, c]));
+  const mine = new Map(local.map((c) => [c.id, c]));
+  const theirs = new Map(remote.map((c) => [c.id, c]));
+  const ids = (list: Category[]) => list.map((c) => c.id).join("\n");
+  const order = ids(local) === ids(synced) ? [...remote, ...local] : [...local, ...remote];
+
+  const merged: Category[] = [];
+  const seen = new Set<string>();
+  order.forEach(({ id }) => {
+    if (seen.has(id)) return;
+    seen.add(id);
+    const [m, b, r] = [mine.get(id), base.get(id), theirs.get(id)];
+    if (m && r) merged.push(b ? mergeFields(m, b, r) : m);
+    else if (m && !(b && sameValue(m, b))) merged.push(m); // deleted there, kept if changed here
+    else if (r && !(b && sameValue(r, b))) merged.push(r); // new there, or changed there and deleted here
+  });
+  return sameValue(merged, remote) ? remote : merged;
+}
+
+// The search filter is a view of one tab, so it's neither sent nor taken.
+export const sameSharedSettings = (a: Settings, b: Settings) => sameValue({ ...a, filterTerm: b.filterTerm }, b);
+
+/** Three-way merge of settings, per field like categories; keeps this tab's filter. */
+export function mergeSettings(local: Settings, synced: Settings, remote: Settings): Settings {
+  return { ...mergeFields(local, synced, remote), filterTerm: local.filterTerm };
+}
+
+export function openTabChannel(onChange: (change: TabChange) => void) {
+  const tab = uid();
+  if (typeof BroadcastChannel === "undefined") return { tab, post: () => {}, close: () => {} };
+  const channel = new BroadcastChannel(CHANNEL);
+  channel.onmessage = (e: MessageEvent<TabChange>) => {
+    if (e.data?.from !== tab) onChange(e.data);
+  };
+  return {
+    tab,
+    post: (change: Omit<TabChange, "from">) => channel.postMessage({ ...change, from: tab }),
+    close: () => channel.close(),
+  };
+}
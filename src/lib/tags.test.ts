@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { collectTags, normalizeTag, retagItems } from "@/lib/tags";
+import { makeItem } from "@/test/fixtures";
+
+const items = [
+  makeItem("a", { tags: ["waiting-on", "errand"] }),
+  makeItem("b", { tags: ["errand"] }),
+  makeItem("c", { tags: ["waiting-on"] }),
+  makeItem("d"),
+];
+
+describe("tags", () => {
+  it("normalizes names so spellings of one tag match", () => {
+    expect(normalizeTag("  #Waiting on, ")).toBe("waiting-on");
+  });
+
+  it("counts tags in use, most used first", () => {
+    expect(collectTags(items, { errand: "green" })).toEqual([
+      { name: "errand", count: 2, color: "green" },
+      { name: "waiting-on", count: 2, color: "gray" },
+    ]);
+  });
+});
+
+describe("retagItems", () => {
+  it("renames a tag only on the items that have it", () => {
+    expect(retagItems(items, "waiting-on", "blocked-by")).toEqual({
+      a: { tags: ["blocked-by", "errand"] },
+      c: { tags: ["blocked-by"] },
+    });
+  });
+
+  it("merges into an existing tag without doubling it", () => {
+    expect(retagItems(items, "waiting-on", "errand")).toEqual({
+      a: { tags: ["errand"] },
+      c: { tags: ["errand"] },
+    });
+  });
+
+  it("removes a tag, clearing lists it leaves empty", () => {
+    expect(retagItems(items, "errand", null)).toEqual({
+      a: { tags: ["waiting-on"] },
+      b: { tags: undefined },
+    });
+  });
+});
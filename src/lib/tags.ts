@@ -0,0 +1,32 @@
+import type { Item, TagColor } from "@/lib/types";
+
+// ---- Tags ----
+// Free-form labels that cut across categories. A tag is identified by its
+// normalized name, so "Waiting on" and "waiting-on" are the same tag.
+export type TagInfo = { name: string; count: number; color: TagColor };
+
+export const normalizeTag = (name: string) =>
+  name.trim().toLowerCase().replace(/^#+/, "").replace(/[\s,]+/g, "-").replace(/^-+|-+$/g, "");
+
+/** Every tag in use, most used first. */
+export function collectTags(items: Item[], colors: Record<string, TagColor>): TagInfo[] {
+  const counts = new Map<string, number>();
+  items.forEach((it) => it.tags?.forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return [...counts]
+    .map(([name, count]) => ({ name, count, color: colors[name] ?? "gray" }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/**
+ * Patches renaming `from` to `to` on every item that has it. Renaming onto a
+ * tag that already exists merges the two; `to` = null removes the tag.
+ */
+export function retagItems(items: Item[], from: string, to: string | null): Record<string, Partial<Item>> {
+  const patches: Record<string, Partial<Item>> = {};
+  items.forEach((it) => {
+    if (!it.tags?.includes(from)) return;
+    const tags = [...new Set(it.tags.map((t) => (t === from ? to : t)).filter((t): t is string => !!t))];
+    patches[it.id] = { tags: tags.length ? tags : undefined };
+  });
+  return patches;
+}
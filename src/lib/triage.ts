@@ -0,0 +1,21 @@
+import type { Category, Item } from "@/lib/types";
+
+// ---- Triage ----
+export const needsTriage = (it: Item) => !it.term || it.priority === undefined;
+
+/**
+ * One letter per category for triage hotkeys: the first letter of the label
+ * that no earlier category took, falling back to any free letter.
+ */
+export function categoryHotkeys(categories: Category[]): { key: string; category: Category }[] {
+  const used = new Set<string>();
+  const out: { key: string; category: Category }[] = [];
+  categories.forEach((category) => {
+    const candidates = [...category.label.toLowerCase(), ..."abcdefghijklmnopqrstuvwxyz"];
+    const key = candidates.find((ch) => /[a-z]/.test(ch) && !used.has(ch));
+    if (!key) return;
+    used.add(key);
+    out.push({ key, category });
+  });
+  return out;
+}
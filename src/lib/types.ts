@@ -0,0 +1,114 @@
+// ---- Data Types ----
+export const TERMS = ["short", "medium", "long"] as const;
+export const STATUSES = ["backlog", "in_progress", "blocked", "done"] as const;
+export const QUADRANTS = ["do", "schedule", "delegate", "eliminate"] as const;
+export const PRIORITIZE_MODES = ["slider", "matrix", "compare"] as const;
+export const ACTIVITY_FIELDS = ["status", "stage", "term", "priority", "category"] as const;
+export const TAG_COLORS = ["gray", "red", "amber", "green", "blue", "violet", "pink"] as const;
+// lucide icon names offered for categories; see CategoryIcon for the mapping
+export const CATEGORY_ICONS = [
+  "folder", "briefcase", "graduation-cap", "users", "leaf", "wallet", "heart-pulse", "house",
+  "book-open", "dumbbell", "plane", "code", "music", "shopping-cart", "star", "lightbulb",
+] as const;
+
+export const DEFAULT_CATEGORIES = [
+  { id: "career", label: "Career/Projects (Education)" },
+  { id: "social", label: "Social" },
+  { id: "environment", label: "Environment" },
+  { id: "finance", label: "Finance" },
+  { id: "health", label: "Health" },
+] as const;
+
+export type Term = typeof TERMS[number];
+export type Status = typeof STATUSES[number];
+export type TagColor = typeof TAG_COLORS[number];
+export type CategoryIconName = typeof CATEGORY_ICONS[number];
+
+/**
+ * A board column. Its `kind` is the built-in status items in it get, which is
+ * what due dates, metrics, subtasks and `status:` search go by; several
+ * columns can share a kind (e.g. "Review" and "Doing" both in progress).
+ */
+export type WorkflowStatus = {
+  id: string; // fixed when the column is added
+  label: string;
+  kind: Status; // "done" columns are the ones with kind done
+  color?: TagColor;
+  wip?: number; // the column is highlighted with more cards than this
+};
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: "backlog", label: "Backlog", kind: "backlog" },
+  { id: "in_progress", label: "In progress", kind: "in_progress" },
+  { id: "blocked", label: "Blocked", kind: "blocked" },
+  { id: "done", label: "Done", kind: "done" },
+];
+export type Quadrant = typeof QUADRANTS[number]; // Eisenhower: urgent × important
+export type PrioritizeMode = typeof PRIORITIZE_MODES[number];
+export type ActivityField = typeof ACTIVITY_FIELDS[number];
+
+export type Item = {
+  id: string;
+  text: string;
+  category: string; // category id
+  createdAt: number;
+  updatedAt: number; // last edit, used to pick the newer copy when merging
+  term?: Term;
+  priority?: number; // 1-5
+  status?: Status; // ticket-style; the kind of `stage`
+  stage?: string; // column in the category's workflow; unset means the first column of `status`
+  rank?: number; // manual position within its board column
+  due?: string; // local calendar day, YYYY-MM-DD
+  recurrence?: Recurrence; // repeats from `due` when completed
+  subtasks?: Subtask[]; // checklist steps, in order
+  tags?: string[]; // normalized names, see normalizeTag
+  quadrant?: Quadrant; // matrix placement; sets `priority` to match
+  conflictOf?: string; // another tab's version of that item, kept until resolved
+  archivedAt?: number; // put away, out of every view but the archive
+  deletedAt?: number; // in the trash
+  activity?: Activity[]; // changes to the tracked fields, oldest first
+};
+
+/** One change to a tracked field; `from`/`to` are absent when the field was unset. */
+export type Activity = { at: number; field: ActivityField; from?: string | number; to?: string | number };
+
+export type Subtask = { id: string; text: string; status: Status };
+
+export type Recurrence =
+  | { kind: "daily" }
+  | { kind: "weekly"; weekdays: number[] } // 0 = Sunday
+  | { kind: "monthly"; day: number }; // day of month, clamped in short months
+
+// The id is fixed when the category is created; everything else can be edited.
+export type Category = {
+  id: string;
+  label: string;
+  color?: TagColor; // shares the tag palette; unset is gray
+  icon?: CategoryIconName;
+  parent?: string; // another category's id; counts roll up into it
+  hidden?: boolean; // left out of the sidebar and pickers, items stay searchable
+  workflow?: WorkflowStatus[]; // own board columns instead of the global ones
+  deletedAt?: number; // in the trash
+};
+
+export type Settings = {
+  kanban: boolean;
+  filterTerm: Term | "all";
+  tagColors: Record<string, TagColor>; // tags without an entry are gray
+  prioritizeMode: PrioritizeMode; // Step 3 list view: slider, matrix or pairwise compare
+  lockMinutes: number; // with encryption on, lock after this long without input
+  trashDays: number; // trash is emptied of entries older than this; 0 keeps them
+  archiveDays: number; // archived items older than this move to the trash; 0 keeps them
+  workflow: WorkflowStatus[]; // board columns for categories without their own
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  kanban: false,
+  filterTerm: "all",
+  tagColors: {},
+  prioritizeMode: "slider",
+  lockMinutes: 10,
+  trashDays: 30,
+  archiveDays: 0,
+  workflow: DEFAULT_WORKFLOW,
+};
@@ -4,3 +4,17 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+export const uid = () => Math.random().toString(36).slice(2)
+export const fmtDate = (ts: number) => new Date(ts).toLocaleString()
+export const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, "-")
+
+export function downloadFile(name: string, content: string, type: string) {
+  const blob = new Blob([content], { type })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = name
+  a.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_WORKFLOW } from "@/lib/types";
+import type { Category, Item, WorkflowStatus } from "@/lib/types";
+import { columnOf, isUsableWorkflow, newColumnId, reconcileStage, rekindItems, workflowResolver } from "@/lib/workflow";
+import { groupColumns, planMove } from "@/lib/kanban";
+import { makeItem } from "@/test/fixtures";
+
+const custom: WorkflowStatus[] = [
+  { id: "todo", label: "To do", kind: "backlog" },
+  { id: "doing", label: "Doing", kind: "in_progress" },
+  { id: "review", label: "Review", kind: "in_progress", wip: 2 },
+  { id: "shipped", label: "Shipped", kind: "done" },
+];
+
+describe("workflowResolver", () => {
+  it("uses a category's own columns, else the shared ones", () => {
+    const categories: Category[] = [{ id: "work", label: "Work", workflow: custom }, { id: "home", label: "Home" }];
+    const workflowOf = workflowResolver(categories, DEFAULT_WORKFLOW);
+    expect(workflowOf("work")).toBe(custom);
+    expect(workflowOf("home")).toBe(DEFAULT_WORKFLOW);
+  });
+});
+
+describe("columnOf", () => {
+  it("places items by stage, by status for items without one, else in a fallback", () => {
+    expect(columnOf(makeItem("a", { stage: "review", status: "in_progress" }), custom).id).toBe("review");
+    expect(columnOf(makeItem("a", { status: "in_progress" }), custom).id).toBe("doing");
+    expect(columnOf(makeItem("a", { status: "blocked" }), DEFAULT_WORKFLOW).id).toBe("blocked");
+    expect(columnOf(makeItem("a", { status: "blocked" }), custom).id).toBe("todo");
+    expect(columnOf(makeItem("a"), custom).id).toBe("todo");
+  });
+
+  it("shows a stage it doesn't know in a fallback without forgetting it", () => {
+    const item = makeItem("a", { stage: "qa", status: "done" });
+    expect(columnOf(item, custom).id).toBe("shipped");
+    expect(item.stage).toBe("qa");
+  });
+});
+
+describe("reconcileStage", () => {
+  it("sets the status from a new stage", () => {
+    const prev = makeItem("a", { stage: "todo", status: "backlog" });
+    expect(reconcileStage(prev, { ...prev, stage: "review" }, custom)).toMatchObject({ stage: "review", status: "in_progress" });
+  });
+
+  it("picks a column for a new status", () => {
+    const prev = makeItem("a", { stage: "review", status: "in_progress" });
+    expect(reconcileStage(prev, { ...prev, status: "done" }, custom)).toMatchObject({ stage: "shipped", status: "done" });
+  });
+
+  it("leaves an item alone when stage and status agree", () => {
+    const prev = makeItem("a", { stage: "review", status: "in_progress" });
+    const next = { ...prev, text: "edited" };
+    expect(reconcileStage(prev, next, custom)).toBe(next);
+  });
+});
+
+describe("rekindItems", () => {
+  it("moves the status of items in a column that changed kind, keeping updatedAt", () => {
+    const items = [makeItem("a", { stage: "review", status: "in_progress" }), makeItem("b", { stage: "todo", status: "backlog" })];
+    const rekinded = custom.map((c) => (c.id === "review" ? { ...c, kind: "blocked" as const } : c));
+    const next = rekindItems(items, () => rekinded, 10);
+    expect(next[0]).toMatchObject({ status: "blocked", updatedAt: 0, activity: [{ at: 10, field: "status", from: "in_progress", to: "blocked" }] });
+    expect(next[1]).toBe(items[1]);
+  });
+
+  it("uses the status as the stage of items from before workflows", () => {
+    const rekinded = DEFAULT_WORKFLOW.map((c) => (c.id === "blocked" ? { ...c, kind: "in_progress" as const } : c));
+    expect(rekindItems([makeItem("a", { status: "blocked" })], () => rekinded)[0].status).toBe("in_progress");
+  });
+
+  it("returns the same array when nothing changes, and leaves unknown stages be", () => {
+    const items = [makeItem("a", { stage: "qa", status: "in_progress" }), makeItem("b", { stage: "todo", status: "backlog" })];
+    expect(rekindItems(items, () => custom)).toBe(items);
+  });
+});
+
+describe("workflow editing helpers", () => {
+  it("requires an open and a done column", () => {
+    expect(isUsableWorkflow(custom)).toBe(true);
+    expect(isUsableWorkflow(custom.filter((c) => c.kind !== "done"))).toBe(false);
+    expect(isUsableWorkflow(custom.filter((c) => c.kind === "done"))).toBe(false);
+  });
+
+  it("derives unique column ids from labels", () => {
+    expect(newColumnId(custom, "Code Review")).toBe("code-review");
+    expect(newColumnId(custom, "Review")).toBe("review-2");
+    expect(newColumnId(custom, "!!!")).toBe("column");
+  });
+});
+
+describe("board moves", () => {
+  const items = [
+    makeItem("a", { stage: "todo", status: "backlog", rank: 0, term: "short" }),
+    makeItem("h", { stage: "todo", status: "backlog", rank: 1 }),
+    makeItem("b", { stage: "todo", status: "backlog", rank: 2, term: "short" }),
+    makeItem("r", { stage: "review", status: "in_progress" }),
+  ];
+  const columns = groupColumns(items, custom);
+
+  it("groups cards into every column in board order", () => {
+    expect(Object.fromEntries(Object.entries(columns).map(([id, list]) => [id, list.map((i) => i.id)]))).toEqual({ todo: ["a", "h", "b"], doing: [], review: ["r"], shipped: [] });
+  });
+
+  it("moves a card to another column, setting its stage and status", () => {
+    expect(planMove(columns, "h", custom[3], 0)).toEqual({ h: { rank: 0, stage: "shipped", status: "done" } });
+  });
+
+  it("ranks the whole column when some cards are hidden", () => {
+    const shown = (i: Item) => i.term === "short";
+    expect(planMove(columns, "b", custom[0], 0, shown)).toEqual({ b: { rank: 0 }, a: { rank: 1 }, h: { rank: 2 } });
+  });
+});
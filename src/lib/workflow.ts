@@ -0,0 +1,71 @@
+import type { Category, Item, Status, WorkflowStatus } from "@/lib/types";
+import { withActivity } from "@/lib/activity";
+import { slugify } from "@/lib/utils";
+
+// ---- Workflows ----
+// Each category uses its own columns or the global ones. An item's `stage` is
+// its column and `status` mirrors that column's kind, the same way `quadrant`
+// and `priority` are kept in step. The default columns have the built-in
+// status ids, so items from before workflows existed need no stage at all:
+// their status stands in for it.
+export type WorkflowOf = (category: string) => WorkflowStatus[];
+
+export function workflowResolver(categories: Category[], global: WorkflowStatus[]): WorkflowOf {
+  const own = new Map(categories.flatMap((c) => (c.workflow ? [[c.id, c.workflow] as const] : [])));
+  return (category) => own.get(category) ?? global;
+}
+
+const kindOf = (item: Item): Status => item.status ?? "backlog";
+const stageOf = (item: Item) => item.stage ?? kindOf(item);
+const isDone = (c: WorkflowStatus) => c.kind === "done";
+
+/**
+ * The column an item shows in: its stage, else the first column of its kind,
+ * else the first open or done one. A stage that isn't a column here (removed,
+ * or set on a device with other columns) is kept and only shown in the fallback.
+ */
+export function columnOf(item: Item, workflow: WorkflowStatus[]): WorkflowStatus {
+  const kind = kindOf(item);
+  return (
+    workflow.find((c) => c.id === stageOf(item)) ??
+    workflow.find((c) => c.kind === kind) ??
+    workflow.find((c) => isDone(c) === (kind === "done")) ??
+    workflow[0]
+  );
+}
+
+/** After an edit: a new stage sets the status to its kind; a new status or category picks a column of that kind. */
+export function reconcileStage(prev: Item, next: Item, workflow: WorkflowStatus[]): Item {
+  const column = workflow.find((c) => c.id === next.stage);
+  if (column && next.stage !== prev.stage) return column.kind === kindOf(next) ? next : { ...next, status: column.kind };
+  if (column && column.kind === kindOf(next)) return next;
+  const stage = workflow.find((c) => c.kind === kindOf(next))?.id;
+  return stage === next.stage ? next : { ...next, stage };
+}
+
+/**
+ * After columns change kind, the items in them follow: their status becomes
+ * the column's kind. Items whose stage isn't a column are left as they are.
+ * Returns `items` itself when nothing changes. `updatedAt` stays, so the
+ * change doesn't win a sync merge over an edit made elsewhere.
+ */
+export function rekindItems(items: Item[], workflowOf: WorkflowOf, now = Date.now()): Item[] {
+  let changed = false;
+  const next = items.map((i) => {
+    const column = workflowOf(i.category).find((c) => c.id === stageOf(i));
+    if (!column || column.kind === kindOf(i)) return i;
+    changed = true;
+    return withActivity(i, { ...i, status: column.kind }, now);
+  });
+  return changed ? next : items;
+}
+
+/** A workflow needs a column for open items and one for finished ones. */
+export const isUsableWorkflow = (workflow: WorkflowStatus[]) => workflow.some(isDone) && workflow.some((c) => !isDone(c));
+
+export function newColumnId(workflow: WorkflowStatus[], label: string) {
+  const base = slugify(label).replace(/^-+|-+$/g, "") || "column";
+  let id = base;
+  for (let n = 2; workflow.some((c) => c.id === id); n++) id = `${base}-${n}`;
+  return id;
+}
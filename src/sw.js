@@ -0,0 +1,33 @@
+// Service worker template. The build (see `precache` in vite.config.ts)
+// replaces the two placeholders below with the emitted files and a hash of
+// them, so every release gets its own cache and shows up as an update.
+const VERSION = __PRECACHE_VERSION__;
+const FILES = __PRECACHE_FILES__;
+const CACHE = `brain-dump-${VERSION}`;
+const SHELL = new URL("index.html", self.registration.scope).href;
+
+self.addEventListener("install", (event) => {
+  // No skipWaiting here: the page asks the user before switching versions.
+  event.waitUntil(caches.open(CACHE).then((cache) => cache.addAll(FILES)));
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k.startsWith("brain-dump-") && k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data?.type === "SKIP_WAITING") self.skipWaiting();
+});
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET" || new URL(request.url).origin !== self.location.origin) return;
+  // Every page load (including shares, which arrive as ?share_text=…) gets the app shell.
+  const cached = request.mode === "navigate" ? caches.match(SHELL) : caches.match(request);
+  event.respondWith(cached.then((hit) => hit || fetch(request)));
+});
@@ -0,0 +1,6 @@
+import type { Item } from "@/lib/types";
+
+// ---- Test Fixtures ----
+
+/** A minimal valid item in "home", with `patch` applied on top. */
+export const makeItem = (id: string, patch: Partial<Item> = {}): Item => ({ id, text: id, category: "home", createdAt: 0, updatedAt: 0, ...patch });
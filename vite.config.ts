@@ -1,9 +1,33 @@
 import { defineConfig } from 'vite'
+import type { Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
+import { createHash } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+
+// Files in public/ aren't part of the bundle, so the ones the app needs offline are listed here.
+const PUBLIC_FILES = ['manifest.webmanifest', 'icon.svg']
+
+// Emits sw.js from src/sw.js with the list of built files to precache.
+function precache(): Plugin {
+  return {
+    name: 'brain-dump:precache',
+    apply: 'build',
+    enforce: 'post',
+    generateBundle(_, bundle) {
+      const files = [...Object.keys(bundle).filter((f) => !f.endsWith('.map')), ...PUBLIC_FILES]
+      const hash = createHash('sha256')
+      Object.values(bundle).forEach((chunk) => hash.update(chunk.type === 'chunk' ? chunk.code : chunk.source))
+      const source = readFileSync(new URL('./src/sw.js', import.meta.url), 'utf8')
+        .replace('__PRECACHE_VERSION__', JSON.stringify(hash.digest('hex').slice(0, 12)))
+        .replace('__PRECACHE_FILES__', JSON.stringify(files))
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source })
+    },
+  }
+}
 
 export default defineConfig({
-  plugins: [tailwindcss(), react()],
+  plugins: [tailwindcss(), react(), precache()],
   resolve: {
     alias: {
       '@': '/src',